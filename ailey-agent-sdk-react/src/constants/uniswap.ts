@@ -0,0 +1,8 @@
+// Standard Uniswap V3 fee tiers (100 = 0.01%, 500 = 0.05%, 3000 = 0.3%, 10000 = 1%)
+export const FEE_TIERS = [100, 500, 3000, 10000] as const;
+
+// Default liquidity price range: current tick ±100
+export const DEFAULT_TICK_RANGE_WIDTH = 100;
+
+// Uniswap Permit2, deployed at the same address on every supported chain
+export const PERMIT2_ADDRESS = '0x000000000022D473030F116dDEE9F6B43aC78BA3';
@@ -1,50 +1,173 @@
-import React, {createContext, ReactNode, useContext} from 'react';
-import {type Config, WagmiProvider} from 'wagmi';
+import {createContext, ReactNode, useContext, useMemo} from 'react';
+import {type Config, useAccount, useChainId, WagmiProvider} from 'wagmi';
 import {QueryClient, QueryClientProvider} from '@tanstack/react-query';
+import type {Abi} from 'viem';
+import {AGENT_API_ABI} from '../abi/agentApi.abi';
+import type {TransactionSettings} from '../utils/transactionSettings';
+import type {TransactionStorage} from '../utils/transactionStorage';
+import {WrongChainError} from '../utils/errors';
+import {TransactionStoreProvider} from './TransactionStoreContext';
 
-interface AileyConfig {
+export type AgentApiAbi = typeof AGENT_API_ABI;
+
+/**
+ * Uniswap V3 deployment addresses on a single chain
+ */
+export interface DexDeployment {
+    /** UniswapV3Factory address */
+    factory: `0x${string}`;
+    /** QuoterV2 address (required for quoter-backed quotes) */
+    quoter?: `0x${string}`;
+    /** Wrapped native token (WBNB, WETH) used to route swaps that start or end in the native coin */
+    wrappedNative?: `0x${string}`;
+    /** NonfungiblePositionManager address */
+    positionManager?: `0x${string}`;
+    /**
+     * Pool init code hash of the factory (Uniswap's or the fork's)
+     * When set, pool addresses are computed locally instead of being looked up with factory.getPool.
+     */
+    poolInitCodeHash?: `0x${string}`;
+    /** Stablecoin (USDT, USDC) fee estimates are quoted in, through its wrapped-native pool */
+    stablecoin?: `0x${string}`;
+}
+
+/**
+ * Agent contract deployment on a single chain
+ */
+export interface AgentDeployment {
+    /** Agent API contract address */
     address: `0x${string}`;
-    abi: readonly unknown[];
-    chainId: number;
+}
+
+interface AileyConfig<TAbi extends Abi = AgentApiAbi> {
+    /** Agent contract ABI, for agents extending the canonical one (default: AGENT_API_ABI) */
+    abi?: TAbi;
+    /** Agent deployments keyed by chain id, resolved against the wallet's current chain */
+    deployments: Record<number, AgentDeployment>;
+    /**
+     * Chain to switch to when the wallet is on an unsupported chain
+     * (default: the lowest chain id in deployments, set it when there are several)
+     */
+    defaultChainId?: number;
+    /** Uniswap V3 deployments keyed by chain id, resolved against the active chain */
+    dex?: Record<number, DexDeployment>;
+    /** Default slippage and deadline of swap and liquidity transactions, overridable per call */
+    transactionSettings?: TransactionSettings;
+    /** Where the transaction history is persisted (default: in memory only) */
+    transactionStorage?: TransactionStorage;
 }
 
 interface AgentApiContextType {
+    abi: Abi;
+    deployments: Record<number, AgentDeployment>;
+    defaultChainId: number | undefined;
+    dex: Record<number, DexDeployment> | undefined;
+    transactionSettings: TransactionSettings | undefined;
+}
+
+/**
+ * Agent deployment resolved for the wallet's current chain
+ */
+export interface AgentApi<TAbi extends Abi = AgentApiAbi> {
+    /** Agent contract address on the current chain (undefined on unsupported chains) */
     address: `0x${string}` | undefined;
-    abi: readonly unknown[] | undefined;
-    chainId: number | undefined;
+    abi: TAbi;
+    /** Wallet's current chain id (falls back to the wagmi config chain when disconnected) */
+    chainId: number;
+    /** Whether an agent is deployed on the current chain */
+    isSupported: boolean;
+    /** Chain ids with an agent deployment */
+    supportedChainIds: number[];
+    /** Chain to switch to when the current one is unsupported */
+    defaultChainId: number | undefined;
+    dex: Record<number, DexDeployment> | undefined;
+    /** Provider-level slippage and deadline defaults */
+    transactionSettings: TransactionSettings | undefined;
+    /** WRONG_CHAIN error if the current chain has no agent deployment */
+    error: WrongChainError | null;
 }
 
-interface AgentApiProviderProps {
+interface AgentApiProviderProps<TAbi extends Abi = AgentApiAbi> {
     wagmiConfig: Config;
     queryClient: QueryClient;
-    aileyConfig: AileyConfig;
+    aileyConfig: AileyConfig<TAbi>;
     children: ReactNode;
 }
 
+// Object keys carry no declaration order for chain ids (integer keys are listed ascending), so pick the lowest explicitly
+function lowestChainId(deployments: Record<number, AgentDeployment>): number | undefined {
+    const chainIds = Object.keys(deployments).map(Number);
+    return chainIds.length > 0 ? Math.min(...chainIds) : undefined;
+}
+
 const AgentApiContext = createContext<AgentApiContextType | undefined>(undefined);
 
-export const AileyProvider: React.FC<AgentApiProviderProps> = ({wagmiConfig, queryClient, aileyConfig, children}) => {
-    const value = {
-        address: aileyConfig.address,
-        abi: aileyConfig.abi,
-        chainId: aileyConfig.chainId
-    };
+/**
+ * Provider for wagmi, react-query, the agent deployments and the transaction history
+ *
+ * Generic over the agent ABI so useAgentApiContract can type-check calls to agents
+ * that extend AGENT_API_ABI with their own functions.
+ */
+export function AileyProvider<const TAbi extends Abi = AgentApiAbi>({
+    wagmiConfig,
+    queryClient,
+    aileyConfig,
+    children
+}: AgentApiProviderProps<TAbi>) {
+    const value = useMemo(() => ({
+        abi: aileyConfig.abi ?? AGENT_API_ABI,
+        deployments: aileyConfig.deployments,
+        defaultChainId: aileyConfig.defaultChainId ?? lowestChainId(aileyConfig.deployments),
+        dex: aileyConfig.dex,
+        transactionSettings: aileyConfig.transactionSettings
+    }), [aileyConfig.abi, aileyConfig.deployments, aileyConfig.defaultChainId, aileyConfig.dex,
+        aileyConfig.transactionSettings]);
 
     return (
         <WagmiProvider config={wagmiConfig}>
             <QueryClientProvider client={queryClient}>
                 <AgentApiContext.Provider value={value}>
-                    {children}
+                    <TransactionStoreProvider storage={aileyConfig.transactionStorage}>
+                        {children}
+                    </TransactionStoreProvider>
                 </AgentApiContext.Provider>
             </QueryClientProvider>
         </WagmiProvider>
     );
-};
+}
 
-export function useAgentApi() {
+/**
+ * Hook to resolve the agent deployment for the wallet's current chain
+ *
+ * Wallets can sit on chains outside the wagmi config, so the connected account's chain wins
+ * over the config chain. On chains without a deployment, address is undefined and error is set.
+ */
+export function useAgentApi<TAbi extends Abi = AgentApiAbi>(): AgentApi<TAbi> {
     const context = useContext(AgentApiContext);
     if (context === undefined) {
         throw new Error('useAgentApi must be used within an AileyProvider');
     }
-    return context;
+
+    const {chainId: accountChainId} = useAccount();
+    const configChainId = useChainId();
+    const chainId = accountChainId ?? configChainId;
+
+    const {abi, deployments, defaultChainId, dex, transactionSettings} = context;
+
+    return useMemo(() => {
+        const deployment = deployments[chainId];
+        return {
+            address: deployment?.address,
+            abi: abi as TAbi,
+            chainId,
+            isSupported: !!deployment,
+            supportedChainIds: Object.keys(deployments).map(Number),
+            defaultChainId,
+            dex,
+            transactionSettings,
+            error: deployment
+                ? null
+                : new WrongChainError(`Ailey agent is not deployed on chain ${chainId}. Switch to a supported network.`, {chainId})
+        };
+    }, [abi, deployments, defaultChainId, dex, transactionSettings, chainId]);
 }
\ No newline at end of file
@@ -0,0 +1,166 @@
+import {createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useState} from 'react';
+import {useConfig} from 'wagmi';
+import {waitForTransactionReceipt} from 'wagmi/actions';
+import type {TransactionReceipt} from 'viem';
+import type {AileyTransaction, TransactionReceiptSummary, TransactionStorage} from '../utils/transactionStorage';
+
+// Oldest records are dropped beyond this many transactions
+const MAX_TRANSACTIONS = 500;
+
+/**
+ * Records transactions into the history, stable across history changes
+ * @internal
+ */
+export interface TransactionRecorder {
+    addTransaction: (transaction: AileyTransaction) => void;
+    /** Record the receipt of a transaction */
+    confirmTransaction: (chainId: number, hash: `0x${string}`, receipt: TransactionReceipt) => void;
+}
+
+/**
+ * Transaction history shared by every hook under AileyProvider
+ * @internal
+ */
+export interface TransactionStore extends TransactionRecorder {
+    /** Recorded transactions, newest first */
+    transactions: AileyTransaction[];
+    /** Whether the persisted history has been loaded */
+    isLoaded: boolean;
+    /** Remove the transactions matching the predicate (default: all) */
+    clearTransactions: (predicate?: (transaction: AileyTransaction) => boolean) => void;
+}
+
+const TransactionStoreContext = createContext<TransactionStore | undefined>(undefined);
+// Split from the store so recording flows do not re-render on every history change
+const TransactionRecorderContext = createContext<TransactionRecorder | undefined>(undefined);
+
+const isSameTransaction = (a: AileyTransaction, chainId: number, hash: `0x${string}`) =>
+    a.chainId === chainId && a.hash.toLowerCase() === hash.toLowerCase();
+
+// Receipt fields kept in the history
+function summarizeReceipt(receipt: TransactionReceipt): TransactionReceiptSummary {
+    return {
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.gasUsed,
+        effectiveGasPrice: receipt.effectiveGasPrice
+    };
+}
+
+interface TransactionStoreProviderProps {
+    /** Persistence adapter (default: in memory, the history is lost on reload) */
+    storage?: TransactionStorage;
+    children: ReactNode;
+}
+
+/**
+ * Provider of the transaction history, rendered by AileyProvider
+ *
+ * Execution flow:
+ * 1. Load the persisted history and merge it with transactions recorded meanwhile
+ * 2. Watch transactions persisted as pending until their receipt arrives
+ * 3. Save the full history after every change
+ *
+ * @internal
+ */
+export function TransactionStoreProvider({storage, children}: TransactionStoreProviderProps) {
+    const config = useConfig();
+
+    const [transactions, setTransactions] = useState<AileyTransaction[]>([]);
+    const [isLoaded, setIsLoaded] = useState(!storage);
+
+    const confirmTransaction = useCallback((chainId: number, hash: `0x${string}`, receipt: TransactionReceipt) => {
+        setTransactions(prev => prev.map(transaction => isSameTransaction(transaction, chainId, hash) ? {
+            ...transaction,
+            status: receipt.status === 'success' ? 'confirmed' : 'reverted',
+            confirmedAt: Date.now(),
+            receipt: summarizeReceipt(receipt)
+        } : transaction));
+    }, []);
+
+    // 1-2. Load the persisted history, then watch its pending transactions
+    useEffect(() => {
+        if (!storage) return;
+        let cancelled = false;
+
+        Promise.resolve(storage.load()).then(loaded => {
+            if (cancelled) return;
+            setTransactions(prev => [
+                ...prev,
+                ...loaded.filter(old => !prev.some(recorded => isSameTransaction(recorded, old.chainId, old.hash)))
+            ].sort((a, b) => b.submittedAt - a.submittedAt).slice(0, MAX_TRANSACTIONS));
+            setIsLoaded(true);
+
+            for (const {chainId, hash, status} of loaded) {
+                if (status !== 'pending') continue;
+                waitForTransactionReceipt(config, {hash, chainId})
+                    .then(receipt => !cancelled && confirmTransaction(chainId, hash, receipt))
+                    .catch(e => console.error(`Failed to fetch receipt of ${hash}:`, e));
+            }
+        }).catch(e => {
+            // History stays unsaved rather than overwriting what could not be read
+            console.error("Failed to load transactions:", e);
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [storage, config, confirmTransaction]);
+
+    // 3. Persist every change once the history is loaded (saving earlier would overwrite it)
+    useEffect(() => {
+        if (!storage || !isLoaded) return;
+        Promise.resolve(storage.save(transactions))
+            .catch(e => console.error("Failed to save transactions:", e));
+    }, [storage, isLoaded, transactions]);
+
+    const addTransaction = useCallback((transaction: AileyTransaction) => {
+        setTransactions(prev => [
+            transaction,
+            ...prev.filter(recorded => !isSameTransaction(recorded, transaction.chainId, transaction.hash))
+        ].slice(0, MAX_TRANSACTIONS));
+    }, []);
+
+    const clearTransactions = useCallback((predicate?: (transaction: AileyTransaction) => boolean) => {
+        setTransactions(prev => predicate ? prev.filter(transaction => !predicate(transaction)) : []);
+    }, []);
+
+    const recorder = useMemo(() => ({addTransaction, confirmTransaction}), [addTransaction, confirmTransaction]);
+    const value = useMemo(() => ({
+        transactions,
+        isLoaded,
+        addTransaction,
+        confirmTransaction,
+        clearTransactions
+    }), [transactions, isLoaded, addTransaction, confirmTransaction, clearTransactions]);
+
+    return (
+        <TransactionStoreContext.Provider value={value}>
+            <TransactionRecorderContext.Provider value={recorder}>
+                {children}
+            </TransactionRecorderContext.Provider>
+        </TransactionStoreContext.Provider>
+    );
+}
+
+/**
+ * Hook to access the transaction history of the enclosing AileyProvider
+ * @internal
+ */
+export function useTransactionStore(): TransactionStore {
+    const context = useContext(TransactionStoreContext);
+    if (context === undefined) {
+        throw new Error('useTransactionStore must be used within an AileyProvider');
+    }
+    return context;
+}
+
+/**
+ * Hook to record transactions into the history of the enclosing AileyProvider
+ *
+ * Undefined outside AileyProvider (e.g. useTransactionFlow under a plain WagmiProvider),
+ * transactions are then not recorded.
+ * @internal
+ */
+export function useTransactionRecorder(): TransactionRecorder | undefined {
+    return useContext(TransactionRecorderContext);
+}
@@ -1,35 +1,59 @@
 import {useCallback, useEffect, useMemo, useState} from 'react';
-import {
-    useAccount,
-    useDisconnect,
-    useReadContract,
-    useReadContracts,
-    useWaitForTransactionReceipt,
-    useWriteContract
-} from 'wagmi';
-import {useAgentApi} from '../context/AgentApiContext';
-import {erc20Abi, formatUnits, parseUnits} from 'viem';
-import {nearestUsableTick, Position} from "@uniswap/v3-sdk";
+import {useAccount, useConfig, useReadContracts} from 'wagmi';
+import type {SimulateContractParameters} from 'wagmi/actions';
+import {type AgentApiAbi, useAgentApi} from '../context/AgentApiContext';
+import {type ContractFunctionArgs, erc20Abi, formatUnits, maxUint256} from 'viem';
+import {Position} from "@uniswap/v3-sdk";
 import {usePoolData} from './usePoolData';
+import {DEFAULT_TICK_RANGE_WIDTH} from '../constants/uniswap';
+import {type AmountInput, isPositiveAmount, toRawAmount} from '../utils/amount';
+import {type PriceRange, resolvePriceRange} from '../utils/priceRange';
+import {type ApprovalStrategy, resolveApprovalAmount, validateApprovalStrategy} from '../utils/approval';
+import {approvalStep, permitStep, simulateAndWrite, type TransactionStep, useTransactionFlow} from './useTransactionFlow';
+import {type PermitSignature, toAgentPermit, usePermitKind} from './usePermitSignature';
+import {usePoolVolatility} from './usePoolVolatility';
+import {GAS_FALLBACKS, type PlannedTransaction, useFeeEstimate} from './useFeeEstimate';
+import {
+    deadlineFromNow,
+    minimumAmount,
+    resolveSlippageBps,
+    resolveTransactionSettings,
+    type ResolvedTransactionSettings,
+    type TransactionSettings
+} from '../utils/transactionSettings';
 import JSBI from "jsbi";
-
-// Default configuration for liquidity provision
-const POOL_FEE = 100;                           // 0.01% Uniswap pool fee tier (100 basis points)
-const TICK_RANGE_WIDTH = 100;                   // Price range width: current tick ±100
-const DEADLINE_MINUTES = 10;                    // 10 minutes transaction deadline
+import {AileyError, InsufficientBalanceError, toAileyError} from '../utils/errors';
 
 /**
  * Parameters for adding liquidity to a Uniswap V3 pool
+ *
+ * slippageBps and deadlineMinutes override aileyConfig.transactionSettings for this addition,
+ * 'auto' slippage follows the pool's recent volatility.
  */
-export interface AddLiquidityParams {
+export interface AddLiquidityParams extends TransactionSettings {
     /** Token A contract address */
     tokenAAddress: `0x${string}`;
     /** Token B contract address */
     tokenBAddress: `0x${string}`;
-    /** Token A amount as string (e.g., "30") */
-    amountA: string;
-    /** Token B amount as string (e.g., "0.03") */
-    amountB: string;
+    /** Token A amount, human-readable string in token A decimals (e.g., "30") or raw bigint */
+    amountA: AmountInput;
+    /** Token B amount, human-readable string in token B decimals (e.g., "0.03") or raw bigint */
+    amountB: AmountInput;
+    /** Uniswap pool fee tier in basis points (defaults to the deepest existing tier) */
+    fee?: number;
+    /** Price range of the position, prices are token A prices in token B (default: current tick ±100) */
+    range?: PriceRange;
+    /**
+     * How much of each token to approve when its allowance is short (default: 'exact')
+     * Setting it turns permits off unless permit is true, a permit covers exactly the position amount.
+     */
+    approvalStrategy?: ApprovalStrategy;
+    /**
+     * Sign EIP-2612 or Permit2 permits instead of sending approvals for tokens that support one
+     * (default: true without an approvalStrategy, false with one)
+     * Permits cover exactly the position amounts, approvalStrategy only applies to approval transactions.
+     */
+    permit?: boolean;
 }
 
 /**
@@ -39,8 +63,8 @@ export interface AddLiquidityParams {
  * 1. idle: Waiting for user action
  * 2. checking-balances: Verifying token balances
  * 3. checking-approvals: Checking token approval status
- * 4. approving-token0: Approving token0
- * 5. approving-token1: Approving token1
+ * 4. signing-permit-token0 / approving-token0: Signing a permit for token0, or approving it
+ * 5. signing-permit-token1 / approving-token1: Signing a permit for token1, or approving it
  * 6. adding-liquidity: Adding liquidity to pool
  * 7. complete: Process completed successfully
  * 8. error: Error occurred
@@ -49,12 +73,77 @@ export type AddLiquidityStep =
     'idle'
     | 'checking-balances'
     | 'checking-approvals'
+    | 'signing-permit-token0'
     | 'approving-token0'
+    | 'signing-permit-token1'
     | 'approving-token1'
     | 'adding-liquidity'
     | 'complete'
     | 'error';
 
+/**
+ * Position details fixed when approvals start, shared by the transaction steps
+ */
+interface AddLiquidityFlowState {
+    account: `0x${string}`;
+    agent: `0x${string}`;
+    token0: `0x${string}`;
+    token1: `0x${string}`;
+    fee: number;
+    tickLower: number;
+    tickUpper: number;
+    amount0: bigint;
+    amount1: bigint;
+    amount0Min: bigint;
+    amount1Min: bigint;
+    deadlineMinutes: number;
+    approvalStrategy?: ApprovalStrategy;
+    /** Whether to try permits before approvals (params.permit, or no approvalStrategy set) */
+    usePermit: boolean;
+    /** Permits signed instead of approvals, passed to agent.callAddLiquidityWithPermit() */
+    permit0?: PermitSignature;
+    permit1?: PermitSignature;
+}
+
+// Add liquidity step of each transaction step
+const FLOW_STEPS: Record<string, AddLiquidityStep> = {
+    'permit-token0': 'signing-permit-token0',
+    'approve-token0': 'approving-token0',
+    'permit-token1': 'signing-permit-token1',
+    'approve-token1': 'approving-token1',
+    'add-liquidity': 'adding-liquidity'
+};
+
+// Agent function and arguments of the add liquidity transaction, with the signed permits if there are any
+function addLiquidityCall(state: AddLiquidityFlowState, deadline: bigint): {
+    functionName: 'callAddLiquidity';
+    args: ContractFunctionArgs<AgentApiAbi, 'nonpayable', 'callAddLiquidity'>;
+} | {
+    functionName: 'callAddLiquidityWithPermit';
+    args: ContractFunctionArgs<AgentApiAbi, 'nonpayable', 'callAddLiquidityWithPermit'>;
+} {
+    const args = [
+        state.token0,
+        state.token1,
+        state.fee,
+        state.tickLower,
+        state.tickUpper,
+        state.amount0,
+        state.amount1,
+        state.amount0Min,
+        state.amount1Min,
+        state.account,
+        deadline
+    ] as const;
+
+    if (!state.permit0 && !state.permit1) return {functionName: 'callAddLiquidity', args};
+    return {
+        functionName: 'callAddLiquidityWithPermit',
+        // A token without a permit is pulled through its existing allowance
+        args: [...args, toAgentPermit(state.permit0), toAgentPermit(state.permit1)]
+    };
+}
+
 /**
  * Debug information for troubleshooting liquidity addition
  */
@@ -76,76 +165,144 @@ export interface DebugInfo {
  *
  * Full execution flow:
  * 1. User calls callAddLiquidity() with token amounts (e.g., ALE/WBNB)
- * 2. Verify user has sufficient token balances → Error if insufficient
- * 3. Query pool data (price, tick, liquidity, etc.)
- * 4. Calculate exact token ratio using Position.fromAmounts based on current price
- * 5. Check token approvals → Execute approval transactions if needed
- * 6. Call agent.callAddLiquidity() to add liquidity to the pool
- * 7. Handle success/failure and update state accordingly
+ * 2. Query pool data (price, tick, liquidity, etc.) for the requested fee tier or the deepest pool
+ * 3. Convert amounts with each token's decimals and verify user has sufficient balances → Error if insufficient
+ * 4. Resolve the requested range (ticks, prices, percent or full range) to ticks on the pool's tick spacing
+ * 5. Calculate exact token ratio using Position.fromAmounts based on current price
+ * 6. Check token approvals → Sign EIP-2612 or Permit2 permits if needed, or execute approval transactions
+ *    for tokens that support neither (or when permits are off, see AddLiquidityParams.permit)
+ * 7. Call agent.callAddLiquidity() (agent.callAddLiquidityWithPermit() with signed permits) with slippage-protected minimum amounts and a deadline
+ *    (per-call settings, then aileyConfig.transactionSettings, then 0.5% / 10 minutes),
+ *    simulated first so a call that would revert fails with its decoded error before the wallet prompt
+ * 8. Handle success/failure and update state accordingly
+ *
+ * Steps 6-7 run on useTransactionFlow, retry() resumes from the failed transaction.
+ *
+ * Pass the params of the addition the user is about to send as preview to load the pool, calculate the
+ * amounts and estimate the gas and network fee of every planned transaction (approvals, addition) before
+ * callAddLiquidity(). Permit signatures send no transaction, their redemption is included in the addition estimate. Once an addition is called, amounts and fee estimate follow the called params.
+ *
+ * @param preview Params to calculate amounts and estimate fees for before callAddLiquidity()
  */
-export function useAddLiquidity() {
-    const {address: agentAddress, abi: agentAbi, chainId} = useAgentApi();
+export function useAddLiquidity(preview?: AddLiquidityParams) {
+    const {address: agentAddress, abi: agentAbi, chainId, transactionSettings, error: chainError} = useAgentApi();
     const {address: userAddress} = useAccount();
-    const {disconnect} = useDisconnect();
+    const config = useConfig();
 
-    const [step, setStep] = useState<AddLiquidityStep>('idle');
-    const [error, setError] = useState<string | null>(null);
+    // Steps before the transactions start, the flow reports the rest
+    const [phase, setPhase] = useState<'idle' | 'checking-balances' | 'checking-approvals' | 'flow' | 'error'>('idle');
+    const [error, setError] = useState<AileyError | null>(null);
     const [currentParams, setCurrentParams] = useState<AddLiquidityParams | null>(null);
+    const [settings, setSettings] = useState<ResolvedTransactionSettings | null>(null);
     const [debugInfo, setDebugInfo] = useState<DebugInfo>({});
 
+    // Addition being sent, or the previewed one before callAddLiquidity()
+    const activeParams = currentParams ?? preview;
+    const previewSettings = useMemo(() => {
+        try {
+            return resolveTransactionSettings({slippageBps: preview?.slippageBps, deadlineMinutes: preview?.deadlineMinutes},
+                transactionSettings);
+        } catch {
+            return undefined;
+        }
+    }, [preview?.slippageBps, preview?.deadlineMinutes, transactionSettings]);
+    const activeSettings = currentParams ? settings : previewSettings;
+
     // Fetch pool data from Uniswap V3
     const {
         tokenA,
         tokenB,
         pool,
         poolAddress,
+        fee: poolFee,
         tick: currentTick,
         isLoading: isPoolDataLoading,
         error: poolError
-    } = usePoolData(currentParams ? {
-        tokenAAddress: currentParams.tokenAAddress,
-        tokenBAddress: currentParams.tokenBAddress,
-        fee: POOL_FEE
+    } = usePoolData(activeParams ? {
+        tokenAAddress: activeParams.tokenAAddress,
+        tokenBAddress: activeParams.tokenBAddress,
+        fee: activeParams.fee
     } : undefined);
 
+    // Recent pool movement for 'auto' slippage
+    const {volatilityBps, isLoading: isVolatilityLoading} = usePoolVolatility(
+        poolAddress ? [poolAddress] : undefined,
+        activeSettings?.slippageBps === 'auto'
+    );
+
+    // Convert requested amounts to raw values with each token's decimals
+    const desiredAmounts = useMemo(() => {
+        if (!activeParams || !tokenA || !tokenB) return undefined;
+
+        try {
+            return {
+                amountA: toRawAmount(activeParams.amountA, tokenA.decimals),
+                amountB: toRawAmount(activeParams.amountB, tokenB.decimals)
+            };
+        } catch (e) {
+            setDebugInfo(prev => ({...prev, errorDetails: String(e)}));
+            return undefined;
+        }
+    }, [activeParams, tokenA, tokenB]);
+
     // Check token balances (only when params are set and in checking-balances step)
     const {data: balances, isLoading: isBalancesLoading} = useReadContracts({
         contracts: [
             {address: currentParams?.tokenAAddress, abi: erc20Abi, functionName: 'balanceOf', args: [userAddress!]},
             {address: currentParams?.tokenBAddress, abi: erc20Abi, functionName: 'balanceOf', args: [userAddress!]},
         ],
-        query: {enabled: !!userAddress && !!currentParams && step === 'checking-balances'}
+        query: {enabled: !!userAddress && !!currentParams && phase === 'checking-balances'}
     });
 
     // Verify balances and check if user has sufficient tokens
     useEffect(() => {
-        if (balances && currentParams && balances[0]?.result !== undefined && balances[1]?.result !== undefined) {
-            const balanceA = formatUnits(balances[0].result as bigint, 18);
-            const balanceB = formatUnits(balances[1].result as bigint, 18);
-
-            // Check if balance is insufficient
-            const insufficientBalance =
-                parseFloat(balanceA) < parseFloat(currentParams.amountA) ||
-                parseFloat(balanceB) < parseFloat(currentParams.amountB);
+        if (phase !== 'checking-balances' || !tokenA || !tokenB || !currentParams) return;
 
-            setDebugInfo(prev => ({
-                ...prev,
-                tokenABalance: balanceA,
-                tokenBBalance: balanceB,
-                requiredTokenA: currentParams.amountA,
-                requiredTokenB: currentParams.amountB,
-                insufficientBalance
-            }));
+        if (!desiredAmounts) {
+            setError(new AileyError('INVALID_INPUT', 'Invalid amounts for the token decimals'));
+            setPhase('error');
+            return;
+        }
 
-            if (insufficientBalance) {
-                setError(`Insufficient balance. Required: ${currentParams.amountA} TokenA, ${currentParams.amountB} TokenB / Available: ${balanceA} TokenA, ${balanceB} TokenB`);
-                setStep('error');
-            } else {
-                // Move to approval check step if balance is sufficient
-                setStep('checking-approvals');
-            }
+        const rawBalanceA = balances?.[0]?.result;
+        const rawBalanceB = balances?.[1]?.result;
+        if (rawBalanceA === undefined || rawBalanceB === undefined) return;
+
+        const balanceA = formatUnits(rawBalanceA, tokenA.decimals);
+        const balanceB = formatUnits(rawBalanceB, tokenB.decimals);
+        const requiredA = formatUnits(desiredAmounts.amountA, tokenA.decimals);
+        const requiredB = formatUnits(desiredAmounts.amountB, tokenB.decimals);
+
+        // Check if balance is insufficient
+        const insufficientBalance = rawBalanceA < desiredAmounts.amountA || rawBalanceB < desiredAmounts.amountB;
+
+        setDebugInfo(prev => ({
+            ...prev,
+            tokenABalance: balanceA,
+            tokenBBalance: balanceB,
+            requiredTokenA: requiredA,
+            requiredTokenB: requiredB,
+            insufficientBalance
+        }));
+
+        if (insufficientBalance) {
+            const symbolA = tokenA.symbol ?? 'TokenA';
+            const symbolB = tokenB.symbol ?? 'TokenB';
+            const isShortA = rawBalanceA < desiredAmounts.amountA;
+            setError(new InsufficientBalanceError(
+                `Insufficient balance. Required: ${requiredA} ${symbolA}, ${requiredB} ${symbolB} / Available: ${balanceA} ${symbolA}, ${balanceB} ${symbolB}`,
+                {
+                    token: isShortA ? currentParams.tokenAAddress : currentParams.tokenBAddress,
+                    required: isShortA ? desiredAmounts.amountA : desiredAmounts.amountB,
+                    available: isShortA ? rawBalanceA : rawBalanceB
+                }
+            ));
+            setPhase('error');
+        } else {
+            // Move to approval check step if balance is sufficient
+            setPhase('checking-approvals');
         }
-    }, [balances, currentParams]);
+    }, [phase, balances, currentParams, desiredAmounts, tokenA, tokenB]);
 
     // Determine token0/token1 order (Uniswap V3 convention: sort by address)
     const [token0, token1] = useMemo(() => {
@@ -155,37 +312,43 @@ export function useAddLiquidity() {
         return isTokenAToken0 ? [tokenA, tokenB] : [tokenB, tokenA];
     }, [tokenA, tokenB]);
 
-    // Calculate tick range (current tick ± TICK_RANGE_WIDTH)
-    const [tickLower, tickUpper] = useMemo(() => {
-        if (!pool || currentTick === undefined) {
-            return [undefined, undefined];
+    // Resolve the requested price range (default: current tick ± DEFAULT_TICK_RANGE_WIDTH)
+    const {priceRange, rangeError} = useMemo(() => {
+        if (!pool || !tokenA || !tokenB || !activeParams || currentTick === undefined) {
+            return {};
         }
 
-        // Round to nearest usable tick based on pool's tick spacing
-        const lower = nearestUsableTick(currentTick - TICK_RANGE_WIDTH, pool.tickSpacing);
-        const upper = nearestUsableTick(currentTick + TICK_RANGE_WIDTH, pool.tickSpacing);
-        return [lower, upper];
+        const range: PriceRange = activeParams.range ?? {
+            type: 'ticks',
+            tickLower: currentTick - DEFAULT_TICK_RANGE_WIDTH,
+            tickUpper: currentTick + DEFAULT_TICK_RANGE_WIDTH
+        };
 
-    }, [pool, currentTick]);
+        try {
+            // Round to usable ticks based on pool's tick spacing
+            return {priceRange: resolvePriceRange(range, tokenA, tokenB, currentTick, pool.tickSpacing)};
+        } catch (e) {
+            return {rangeError: toAileyError(e, {code: 'INVALID_INPUT'})};
+        }
+    }, [pool, tokenA, tokenB, activeParams, currentTick]);
+
+    const tickLower = priceRange?.tickLower;
+    const tickUpper = priceRange?.tickUpper;
 
     // Calculate exact amounts using Position.fromAmounts based on current pool price
     const [calculatedAmounts, position] = useMemo(() => {
-        if (!pool || !token0 || !token1 || !currentParams ||
+        if (!pool || !token0 || !token1 || !desiredAmounts ||
             tickLower === undefined || tickUpper === undefined) {
             return [undefined, undefined];
         }
 
         try {
-            // Convert user input to wei
-            const desiredAmountA = parseUnits(currentParams.amountA, 18);
-            const desiredAmountB = parseUnits(currentParams.amountB, 18);
-
             // Map amounts to token0/token1 order
             const amount0Desired = token0.address.toLowerCase() === tokenA?.address.toLowerCase() ?
-                desiredAmountA.toString() : desiredAmountB.toString();
+                desiredAmounts.amountA.toString() : desiredAmounts.amountB.toString();
 
             const amount1Desired = token1.address.toLowerCase() === tokenA?.address.toLowerCase() ?
-                desiredAmountA.toString() : desiredAmountB.toString();
+                desiredAmounts.amountA.toString() : desiredAmounts.amountB.toString();
 
             // Create Uniswap Position object (adjusts amounts to match current price)
             const position = Position.fromAmounts({
@@ -203,8 +366,8 @@ export function useAddLiquidity() {
 
             setDebugInfo(prev => ({
                 ...prev,
-                needed0: formatUnits(BigInt(amount0.toString()), 18),
-                needed1: formatUnits(BigInt(amount1.toString()), 18)
+                needed0: formatUnits(BigInt(amount0.toString()), token0.decimals),
+                needed1: formatUnits(BigInt(amount1.toString()), token1.decimals)
             }));
 
             return [{amount0, amount1}, position];
@@ -213,148 +376,178 @@ export function useAddLiquidity() {
             setDebugInfo(prev => ({...prev, errorDetails: String(e)}));
             return [undefined, undefined];
         }
-    }, [pool, token0, token1, tokenA, tickLower, tickUpper, currentParams]);
-
-    // Check token0 approval status (manually triggered)
-    const {refetch: refetchAllowance0} = useReadContract({
-        address: token0?.address as `0x${string}`,
-        abi: erc20Abi,
-        functionName: 'allowance',
-        args: userAddress && agentAddress ? [userAddress, agentAddress] : undefined,
-        query: {enabled: false}
-    });
+    }, [pool, token0, token1, tokenA, tickLower, tickUpper, desiredAmounts]);
 
-    // Check token1 approval status (manually triggered)
-    const {refetch: refetchAllowance1} = useReadContract({
-        address: token1?.address as `0x${string}`,
-        abi: erc20Abi,
-        functionName: 'allowance',
-        args: userAddress && agentAddress ? [userAddress, agentAddress] : undefined,
-        query: {enabled: false}
-    });
-
-    // Token0 approval transaction
-    const {
-        writeContract: writeApprove0,
-        data: approve0TxHash,
-        isPending: isApproving0,
-        error: approve0Error,
-        reset: resetApprove0,
-    } = useWriteContract();
-
-    // Token1 approval transaction
-    const {
-        writeContract: writeApprove1,
-        data: approve1TxHash,
-        isPending: isApproving1,
-        error: approve1Error,
-        reset: resetApprove1,
-    } = useWriteContract();
-
-    // Add liquidity transaction
-    const {
-        writeContract: writeAddLiquidity,
-        data: addLiquidityTxHash,
-        isPending: isAddingLiquidity,
-        error: addLiquidityError,
-        reset: resetAddLiquidityTx,
-    } = useWriteContract();
-
-    // Wait for transaction confirmations
-    const {isSuccess: isApproval0Success} = useWaitForTransactionReceipt({hash: approve0TxHash});
-    const {isSuccess: isApproval1Success} = useWaitForTransactionReceipt({hash: approve1TxHash});
-    const {isSuccess: isAddLiquiditySuccess} = useWaitForTransactionReceipt({hash: addLiquidityTxHash});
 
-    /**
-     * Execute liquidity addition through agent contract
-     * Calls agent.callAddLiquidity() with calculated parameters
-     */
-    const executeAddLiquidity = useCallback(() => {
-        if (!agentAddress || !agentAbi || !chainId || !userAddress || !pool || !token0 ||
-            !token1 || !calculatedAmounts || tickLower === undefined || tickUpper === undefined) {
-            const missingParams = [];
-            if (!agentAddress) missingParams.push('agent address');
-            if (!pool) missingParams.push('pool');
-            if (!calculatedAmounts) missingParams.push('calculated amounts');
-
-            setError(`Missing required parameters: ${missingParams.join(', ')}`);
-            setStep('error');
-            return;
+    // Position details for the transaction steps, with minimum amounts for slippage protection
+    const flowState = useMemo((): AddLiquidityFlowState | undefined => {
+        if (isVolatilityLoading || !agentAddress || !userAddress || !poolFee || !token0 || !token1 ||
+            !calculatedAmounts || !activeSettings || tickLower === undefined || tickUpper === undefined) {
+            return undefined;
         }
 
-        setStep('adding-liquidity');
+        const slippageBps = resolveSlippageBps(activeSettings.slippageBps, {volatilityBps});
         const amount0 = BigInt(calculatedAmounts.amount0.toString());
         const amount1 = BigInt(calculatedAmounts.amount1.toString());
 
-        // Calculate minimum amounts for slippage protection (0.5%)
-        const amount0Min = BigInt(
-            JSBI.divide(
-                JSBI.multiply(calculatedAmounts.amount0, JSBI.BigInt(1000)),
-                JSBI.BigInt(1005)
-            ).toString()
-        );
-        const amount1Min = BigInt(
-            JSBI.divide(
-                JSBI.multiply(calculatedAmounts.amount1, JSBI.BigInt(1000)),
-                JSBI.BigInt(1005)
-            ).toString()
-        );
-
-        const deadline = BigInt(Math.floor(Date.now() / 1000) + 60 * DEADLINE_MINUTES);
-
-        writeAddLiquidity({
-            address: agentAddress,
-            abi: agentAbi,
-            chainId: chainId,
-            functionName: 'callAddLiquidity',
-            args: [
-                token0.address as `0x${string}`,
-                token1.address as `0x${string}`,
-                POOL_FEE,
-                tickLower,
-                tickUpper,
-                amount0,
-                amount1,
-                amount0Min,
-                amount1Min,
-                userAddress,
-                deadline
-            ]
+        return {
+            account: userAddress,
+            agent: agentAddress,
+            token0: token0.address as `0x${string}`,
+            token1: token1.address as `0x${string}`,
+            fee: poolFee,
+            tickLower,
+            tickUpper,
+            amount0,
+            amount1,
+            amount0Min: minimumAmount(amount0, slippageBps),
+            amount1Min: minimumAmount(amount1, slippageBps),
+            deadlineMinutes: activeSettings.deadlineMinutes,
+            approvalStrategy: activeParams?.approvalStrategy,
+            usePermit: activeParams?.permit ?? activeParams?.approvalStrategy === undefined
+        };
+    }, [isVolatilityLoading, agentAddress, userAddress, poolFee, token0, token1, calculatedAmounts, activeSettings,
+        volatilityBps, tickLower, tickUpper, activeParams?.approvalStrategy, activeParams?.permit]);
+
+    // Allowances the wallet granted the agent, to plan the approval transactions
+    const {data: allowances} = useReadContracts({
+        contracts: [
+            {address: flowState?.token0, abi: erc20Abi, functionName: 'allowance', args: [userAddress!, agentAddress!]},
+            {address: flowState?.token1, abi: erc20Abi, functionName: 'allowance', args: [userAddress!, agentAddress!]},
+        ],
+        query: {enabled: !!flowState}
+    });
+
+    // Whether permits can replace the approvals, only read for tokens whose allowance is short
+    const allowance0 = allowances?.[0]?.result;
+    const allowance1 = allowances?.[1]?.result;
+    const needsApproval0 = !!flowState && allowance0 !== undefined && allowance0 < flowState.amount0;
+    const needsApproval1 = !!flowState && allowance1 !== undefined && allowance1 < flowState.amount1;
+    const {permitKind: permitKind0} = usePermitKind(
+        needsApproval0 && flowState.usePermit ? flowState.token0 : undefined,
+        userAddress,
+        flowState?.amount0,
+        chainId
+    );
+    const {permitKind: permitKind1} = usePermitKind(
+        needsApproval1 && flowState.usePermit ? flowState.token1 : undefined,
+        userAddress,
+        flowState?.amount1,
+        chainId
+    );
+
+    // Transactions the addition will send, with the calls that can be estimated before it runs
+    const plannedTransactions = useMemo((): PlannedTransaction[] | undefined => {
+        if (!flowState || allowance0 === undefined || allowance1 === undefined) return undefined;
+
+        // The permit steps sign instead of approving, wait until the tokens' permit support is known
+        const tokens = ([
+            ['approve-token0', flowState.token0, flowState.amount0, needsApproval0, permitKind0],
+            ['approve-token1', flowState.token1, flowState.amount1, needsApproval1, permitKind1]
+        ] as const).map(([id, token, amount, needsApproval, permitKind]) => {
+            const triesPermit = needsApproval && flowState.usePermit;
+            return {id, token, amount, needsApproval, isPermitPending: triesPermit && !permitKind,
+                signsPermit: triesPermit && !!permitKind && permitKind !== 'approve'};
         });
-    }, [agentAddress, agentAbi, chainId, userAddress, pool, token0, token1,
-        calculatedAmounts, tickLower, tickUpper, writeAddLiquidity]);
+        if (tokens.some(token => token.isPermitPending)) return undefined;
 
-    /**
-     * Check and approve token1 if needed
-     * Called after token0 approval is complete
-     */
-    const checkAndApproveToken1 = useCallback(async () => {
-        if (!agentAddress || !calculatedAmounts || !token1 || !chainId) {
-            return;
-        }
+        const approvals = tokens.filter(token => token.needsApproval && !token.signsPermit);
+        const permitCount = BigInt(tokens.filter(token => token.signsPermit).length);
 
+        // Amounts the approval steps will approve under the strategy, an invalid strategy fails when the addition is called
+        let approvalAmounts: bigint[];
         try {
-            const allowance1Result = await refetchAllowance1();
-            const allowance1 = allowance1Result.data ?? 0n;
-            const amount1Needed = BigInt(calculatedAmounts.amount1.toString());
-
-            if (allowance1 < amount1Needed) {
-                setStep('approving-token1');
-                writeApprove1({
-                    address: token1.address as `0x${string}`,
-                    abi: erc20Abi,
-                    chainId: chainId,
-                    functionName: 'approve',
-                    args: [agentAddress, amount1Needed]
-                });
-            } else {
-                executeAddLiquidity();
+            approvalAmounts = approvals.map(({amount}) => resolveApprovalAmount(amount, flowState.approvalStrategy));
+        } catch {
+            return undefined;
+        }
+
+        return [
+            ...approvals.map(({id, token}, i): PlannedTransaction => ({
+                id,
+                call: {address: token, abi: erc20Abi, functionName: 'approve', args: [flowState.agent, approvalAmounts[i]]},
+                fallbackGas: GAS_FALLBACKS.approve
+            })),
+            {
+                id: 'add-liquidity',
+                // The agent can only pull the tokens once they are approved (or permitted), until then the fallback
+                // applies. Any future deadline uses the same gas, a fixed one keeps the estimate from refreshing every second.
+                call: needsApproval0 || needsApproval1 ? undefined : {
+                    address: flowState.agent,
+                    abi: agentAbi,
+                    ...addLiquidityCall(flowState, maxUint256)
+                },
+                fallbackGas: GAS_FALLBACKS.addLiquidity + GAS_FALLBACKS.permit * permitCount
             }
-        } catch (e) {
-            setError('Failed to check Token1 approval: ' + String(e));
-            setStep('error');
+        ];
+    }, [flowState, allowance0, allowance1, needsApproval0, needsApproval1, permitKind0, permitKind1, agentAbi]);
+
+    const {feeEstimate, isLoading: isEstimatingFee, error: feeEstimateError} = useFeeEstimate(plannedTransactions);
+
+    // Transaction steps: permit or approve token0 (if needed) -> permit or approve token1 (if needed) -> add liquidity
+    const steps: TransactionStep<AddLiquidityFlowState>[] = [
+        permitStep<AddLiquidityFlowState>('permit-token0', config, state => ({
+            token: state.token0,
+            owner: state.account,
+            spender: state.agent,
+            amount: state.amount0,
+            chainId: chainId,
+            enabled: state.usePermit
+        }), permit0 => ({permit0})),
+        approvalStep<AddLiquidityFlowState>('approve-token0', config, state => ({
+            token: state.token0,
+            owner: state.account,
+            spender: state.agent,
+            amount: state.amount0,
+            strategy: state.approvalStrategy,
+            chainId: chainId,
+            skip: !!state.permit0
+        }), allowance => setDebugInfo(prev => ({...prev, allowance0: formatUnits(allowance, token0?.decimals ?? 18)}))),
+        permitStep<AddLiquidityFlowState>('permit-token1', config, state => ({
+            token: state.token1,
+            owner: state.account,
+            spender: state.agent,
+            amount: state.amount1,
+            chainId: chainId,
+            enabled: state.usePermit
+        }), permit1 => ({permit1})),
+        approvalStep<AddLiquidityFlowState>('approve-token1', config, state => ({
+            token: state.token1,
+            owner: state.account,
+            spender: state.agent,
+            amount: state.amount1,
+            strategy: state.approvalStrategy,
+            chainId: chainId,
+            skip: !!state.permit1
+        }), allowance => setDebugInfo(prev => ({...prev, allowance1: formatUnits(allowance, token1?.decimals ?? 18)}))),
+        {
+            // Execute liquidity addition through agent contract
+            id: 'add-liquidity',
+            type: 'add-liquidity',
+            params: state => ({
+                token0: state.token0,
+                token1: state.token1,
+                fee: state.fee,
+                tickLower: state.tickLower,
+                tickUpper: state.tickUpper,
+                amount0: state.amount0,
+                amount1: state.amount1,
+                amount0Min: state.amount0Min,
+                amount1Min: state.amount1Min,
+                permit0: state.permit0?.kind,
+                permit1: state.permit1?.kind
+            }),
+            write: state => simulateAndWrite(config, {
+                address: state.agent,
+                abi: agentAbi,
+                chainId: chainId,
+                ...addLiquidityCall(state, deadlineFromNow(state.deadlineMinutes))
+            } as SimulateContractParameters)
         }
-    }, [agentAddress, calculatedAmounts, token1, chainId, refetchAllowance1, writeApprove1, executeAddLiquidity]);
+    ];
+
+    const flow = useTransactionFlow(steps);
+    const {start: startFlow, reset: resetFlow} = flow;
 
     /**
      * Main entry point - Start the liquidity addition process
@@ -362,188 +555,156 @@ export function useAddLiquidity() {
      */
     const callAddLiquidity = useCallback((params: AddLiquidityParams) => {
         // 1. Check wallet connection
-        if (!agentAddress || !userAddress) {
-            setError('Please connect your wallet first');
-            setStep('error');
+        if (!userAddress) {
+            setError(new AileyError('WALLET_NOT_CONNECTED', 'Please connect your wallet first'));
+            setPhase('error');
+            return;
+        }
+
+        // 1-1. Check the agent is deployed on the wallet's chain
+        if (!agentAddress) {
+            setError(chainError);
+            setPhase('error');
             return;
         }
 
         // 2. Validate token addresses
         if (!params.tokenAAddress || !params.tokenBAddress) {
-            setError('Token addresses are not set');
-            setStep('error');
+            setError(new AileyError('INVALID_INPUT', 'Token addresses are not set'));
+            setPhase('error');
             return;
         }
 
-        // 3. Validate input amounts
-        const amountA = parseFloat(params.amountA);
-        const amountB = parseFloat(params.amountB);
+        // 3. Validate input amounts (converted with token decimals once pool data is loaded)
+        if (!isPositiveAmount(params.amountA) || !isPositiveAmount(params.amountB)) {
+            setError(new AileyError('INVALID_INPUT', 'Please enter valid amounts'));
+            setPhase('error');
+            return;
+        }
 
-        if (isNaN(amountA) || amountA <= 0 || isNaN(amountB) || amountB <= 0) {
-            setError('Please enter valid amounts');
-            setStep('error');
+        // 4. Resolve per-call slippage and deadline over the provider defaults, and check the approval strategy
+        //    (checked against the amounts once they are calculated)
+        let resolvedSettings: ResolvedTransactionSettings;
+        try {
+            resolvedSettings = resolveTransactionSettings(params, transactionSettings);
+            validateApprovalStrategy(params.approvalStrategy);
+        } catch (e) {
+            setError(toAileyError(e));
+            setPhase('error');
             return;
         }
 
-        // 4. Start the process
+        // 5. Start the process
+        resetFlow();
         setCurrentParams(params);
+        setSettings(resolvedSettings);
         setError(null);
-        setStep('checking-balances');
-    }, [agentAddress, userAddress]);
+        setPhase('checking-balances');
+    }, [agentAddress, userAddress, chainError, transactionSettings, resetFlow]);
 
     /**
      * Reset state to initial values
      */
     const resetAddLiquidity = useCallback(() => {
-        setStep('idle');
+        setPhase('idle');
         setError(null);
         setCurrentParams(null);
+        setSettings(null);
         setDebugInfo({});
-        resetApprove0();
-        resetApprove1();
-        resetAddLiquidityTx();
-    }, [resetApprove0, resetApprove1, resetAddLiquidityTx]);
+        resetFlow();
+    }, [resetFlow]);
 
-    /**
-     * Disconnect wallet on critical errors
-     */
-    const disconnectOnError = useCallback(() => {
-        if (step === 'error' && error?.includes('execution')) {
-            disconnect();
-            resetAddLiquidity();
-        }
-    }, [step, error, disconnect, resetAddLiquidity]);
+    // Map flow progress to add liquidity steps
+    let step: AddLiquidityStep;
+    if (phase !== 'flow') step = phase;
+    else if (flow.status === 'complete') step = 'complete';
+    else if (flow.status === 'error') step = 'error';
+    else if (flow.status === 'cancelled') step = 'idle';
+    else if (flow.stepStatuses[flow.currentStepId ?? ''] === 'checking') step = 'checking-approvals';
+    else step = FLOW_STEPS[flow.currentStepId ?? ''] ?? 'checking-approvals';
+
+    const currentError = phase === 'flow' ? flow.error : error;
 
     /**
      * ==========================================
      * State Machine Effects
      * ==========================================
      * 1. checking-balances: Verify token balances
-     * 2. checking-approvals: Check and execute approvals
-     * 3. approving-token0: Handle Token0 approval completion
-     * 4. approving-token1: Handle Token1 approval completion
-     * 5. adding-liquidity: Handle liquidity addition success
-     * 6. error: Handle errors
+     * 2. checking-approvals: Start the transaction flow once amounts are calculated
+     * 3. signing-permit / approving / adding-liquidity steps: Run by useTransactionFlow
+     * 4. error: Handle errors
      * ==========================================
      */
 
-    /**
-     * Main state machine: Check approvals → Execute approvals → Add liquidity
-     */
+    // Amounts calculated -> run the transaction steps
     useEffect(() => {
-        const processAddLiquidity = async () => {
-            // Check approval status when in checking-approvals step
-            if (step === 'checking-approvals' && agentAddress && !isPoolDataLoading &&
-                pool && calculatedAmounts && token0 && token1) {
-                try {
-                    // Query current approval amounts for both tokens
-                    const [allowance0Result, allowance1Result] = await Promise.all([
-                        refetchAllowance0(),
-                        refetchAllowance1()
-                    ]);
-
-                    const allowance0 = allowance0Result.data ?? 0n;
-                    const allowance1 = allowance1Result.data ?? 0n;
-
-                    const amount0Needed = BigInt(calculatedAmounts.amount0.toString());
-                    const amount1Needed = BigInt(calculatedAmounts.amount1.toString());
-
-                    setDebugInfo(prev => ({
-                        ...prev,
-                        allowance0: formatUnits(allowance0, 18),
-                        allowance1: formatUnits(allowance1, 18)
-                    }));
-
-                    const needsApproval0 = allowance0 < amount0Needed;
-                    const needsApproval1 = allowance1 < amount1Needed;
-
-                    // Execute approval transactions if needed
-                    if (needsApproval0) {
-                        setStep('approving-token0');
-                        writeApprove0({
-                            address: token0.address as `0x${string}`,
-                            abi: erc20Abi,
-                            chainId: chainId,
-                            functionName: 'approve',
-                            args: [agentAddress, amount0Needed]
-                        });
-                    } else if (needsApproval1) {
-                        // Check and approve token1 using common function
-                        checkAndApproveToken1();
-                    } else {
-                        // Both tokens approved - execute liquidity addition
-                        executeAddLiquidity();
-                    }
-                } catch (e) {
-                    setError('Failed to check token approvals: ' + String(e));
-                    setStep('error');
-                }
-            }
-        };
-        processAddLiquidity();
-    }, [step, isPoolDataLoading, pool, calculatedAmounts, token0, token1, agentAddress, chainId, refetchAllowance0,
-        refetchAllowance1, writeApprove0, checkAndApproveToken1, executeAddLiquidity]);
+        if (phase !== 'checking-approvals' || isPoolDataLoading || !pool || !flowState) return;
 
-    // Handle Token0 approval completion
-    useEffect(() => {
-        if (isApproval0Success && step === 'approving-token0') {
-            checkAndApproveToken1();
+        try {
+            validateApprovalStrategy(flowState.approvalStrategy, flowState.amount0);
+            validateApprovalStrategy(flowState.approvalStrategy, flowState.amount1);
+        } catch (e) {
+            setError(toAileyError(e));
+            setPhase('error');
+            return;
         }
-    }, [isApproval0Success, step, checkAndApproveToken1]);
 
-    // Handle Token1 approval completion
-    useEffect(() => {
-        if (isApproval1Success && step === 'approving-token1') {
-            executeAddLiquidity();
-        }
-    }, [isApproval1Success, step, executeAddLiquidity]);
+        setPhase('flow');
+        startFlow(flowState);
+    }, [phase, isPoolDataLoading, pool, flowState, startFlow]);
 
-    // Handle liquidity addition success
+    // Unified error handling (pool errors + range errors)
     useEffect(() => {
-        if (isAddLiquiditySuccess && addLiquidityTxHash) {
-            setStep('complete');
-        }
-    }, [isAddLiquiditySuccess, addLiquidityTxHash]);
+        if (phase !== 'checking-balances' && phase !== 'checking-approvals') return;
 
-    // Unified error handling (pool errors + transaction errors)
-    useEffect(() => {
         if (poolError) {
-            setError(`Failed to query pool: ${poolError}`);
-            setStep('error');
+            setError(poolError);
+            setPhase('error');
             return;
         }
 
-        // Handle transaction errors
-        const txError = approve0Error || approve1Error || addLiquidityError;
-        if (txError) {
-            const message = txError.message.includes('User rejected')
-                ? 'User rejected the transaction' : txError.message;
-            setError(message);
-            setDebugInfo(prev => ({...prev, errorDetails: message}));
-            setStep('error');
-
-            // Optionally disconnect on critical errors
-            if (txError.message.includes('execution reverted')) {
-                disconnectOnError();
-            }
+        if (rangeError) {
+            setError(rangeError);
+            setPhase('error');
         }
-    }, [poolError, approve0Error, approve1Error, addLiquidityError, disconnectOnError]);
+    }, [phase, poolError, rangeError]);
+
+    // Handle transaction errors
+    useEffect(() => {
+        if (!flow.error) return;
+        setDebugInfo(prev => ({...prev, errorDetails: flow.error!.message}));
+    }, [flow.error]);
 
     return {
         callAddLiquidity,
         resetAddLiquidity,
-        disconnectOnError,
+        /** Resume a failed addition from the failed transaction */
+        retry: flow.retry,
+        /** Stop before the next transaction (a transaction already sent may still be mined) */
+        cancel: flow.cancel,
         step,
-        error,
-        isPending: step === 'checking-balances' || step === 'checking-approvals' || isApproving0 || isApproving1 || isAddingLiquidity || isPoolDataLoading || isBalancesLoading,
+        stepStatuses: flow.stepStatuses,
+        error: currentError,
+        /** Gas and network fee of the transactions the addition plans to send (needs a connected wallet) */
+        feeEstimate,
+        isEstimatingFee,
+        feeEstimateError,
+        isPending: phase === 'checking-balances' || phase === 'checking-approvals' || flow.isPending ||
+            (!!currentParams && isPoolDataLoading) || isBalancesLoading,
         isSuccess: step === 'complete',
         isError: step === 'error',
-        addLiquidityTxHash,
+        approve0TxHash: flow.hashes['approve-token0'],
+        approve1TxHash: flow.hashes['approve-token1'],
+        addLiquidityTxHash: flow.hashes['add-liquidity'],
         debugInfo,
         poolInfo: {
             poolAddress,
+            fee: poolFee,
             tickLower,
             tickUpper,
+            priceLower: priceRange?.priceLower,
+            priceUpper: priceRange?.priceUpper,
+            isFullRange: priceRange?.isFullRange,
             currentTick,
             token0,
             token1,
@@ -555,4 +716,4 @@ export function useAddLiquidity() {
             position
         }
     };
-}
\ No newline at end of file
+}
@@ -1,32 +1,131 @@
-import {useWaitForTransactionReceipt, useWriteContract} from "wagmi";
-import {useAgentApi} from "../context/AgentApiContext";
+import {useMemo, useState} from "react";
+import {useAccount, useConfig, useWaitForTransactionReceipt, useWriteContract} from "wagmi";
+import {waitForTransactionReceipt} from "wagmi/actions";
+import type {Abi, ContractFunctionArgs, ContractFunctionName} from "viem";
+import {type AgentApiAbi, useAgentApi} from "../context/AgentApiContext";
+import {useTransactionRecorder} from "../context/TransactionStoreContext";
+import {GAS_FALLBACKS, type PlannedTransaction, useFeeEstimate} from "./useFeeEstimate";
+import {type AileyError, toAileyError} from "../utils/errors";
 
-export function useAgentApiContract() {
-    const {address, abi, chainId} = useAgentApi();
-    const {writeContract, isPending, isError, data} = useWriteContract();
+type WriteMutability = 'nonpayable' | 'payable';
+
+/**
+ * Argument tuple of a writable agent function, optional for functions without inputs
+ */
+export type AgentCallArgs<
+    TAbi extends Abi,
+    TFunctionName extends ContractFunctionName<TAbi, WriteMutability>
+> = ContractFunctionArgs<TAbi, WriteMutability, TFunctionName> extends readonly []
+    ? [args?: readonly []]
+    : [args: ContractFunctionArgs<TAbi, WriteMutability, TFunctionName>];
+
+/**
+ * Writable agent function call, with the argument tuple matching the function name
+ * (args may be omitted only for functions without inputs)
+ */
+export type AgentCall<TAbi extends Abi> = {
+    [TFunctionName in ContractFunctionName<TAbi, WriteMutability>]:
+    ContractFunctionArgs<TAbi, WriteMutability, TFunctionName> extends readonly []
+        ? { functionName: TFunctionName; args?: readonly [] }
+        : { functionName: TFunctionName; args: ContractFunctionArgs<TAbi, WriteMutability, TFunctionName> }
+}[ContractFunctionName<TAbi, WriteMutability>];
+
+/**
+ * Hook to call any writable function of the agent contract
+ *
+ * Function names and argument tuples are inferred from the ABI passed to AileyProvider
+ * (AGENT_API_ABI by default), so typos and wrong argument types fail at compile time.
+ * Pass the ABI type explicitly when it extends the canonical one:
+ * useAgentApiContract<typeof myAgentAbi>().
+ *
+ * Pass the call the user is about to send as preview to estimate its gas and network fee.
+ *
+ * @param preview Call to estimate fees for before callContract()
+ */
+export function useAgentApiContract<TAbi extends Abi = AgentApiAbi>(preview?: AgentCall<TAbi>) {
+    const {address, abi, chainId, error: chainError} = useAgentApi<TAbi>();
+    const {address: userAddress} = useAccount();
+    const config = useConfig();
+    const recorder = useTransactionRecorder();
+
+    // Failure before the call reaches the wallet (e.g. WRONG_CHAIN when no agent is deployed on the chain)
+    const [setupError, setSetupError] = useState<AileyError | null>(null);
+
+    // Record every sent call in the transaction history
+    const {writeContract, isPending, isError, error, data} = useWriteContract({
+        mutation: {
+            onSuccess: (hash, {functionName, args, chainId: callChainId}) => {
+                if (!recorder || !userAddress || !callChainId) return;
+                recorder.addTransaction({
+                    hash,
+                    chainId: callChainId,
+                    account: userAddress,
+                    type: 'agent-call',
+                    params: {functionName, args},
+                    status: 'pending',
+                    submittedAt: Date.now()
+                });
+                waitForTransactionReceipt(config, {hash, chainId: callChainId})
+                    .then(receipt => recorder.confirmTransaction(callChainId, hash, receipt))
+                    .catch(e => console.error(`Failed to fetch receipt of ${hash}:`, e));
+            }
+        }
+    });
 
     const {isSuccess} = useWaitForTransactionReceipt({
         hash: data,
     });
 
-    const callContract = (functionName: string, args = []) => {
-        if (!address || !abi || !chainId) {
-            console.error("You must set AgentApiProvider.");
+    const callError = useMemo(() => error ? toAileyError(error, {abi: abi as Abi}) : null, [error, abi]);
+
+    const plannedTransactions = useMemo((): PlannedTransaction[] | undefined => address && preview ? [{
+        id: 'call',
+        call: {
+            address,
+            abi: abi as Abi,
+            functionName: preview.functionName as string,
+            args: (preview.args ?? []) as readonly unknown[]
+        },
+        fallbackGas: GAS_FALLBACKS.agentCall
+    }] : undefined, [address, abi, preview]);
+
+    const {feeEstimate, isLoading: isEstimatingFee, error: feeEstimateError} = useFeeEstimate(plannedTransactions);
+
+    const callContract = <TFunctionName extends ContractFunctionName<TAbi, WriteMutability>>(
+        functionName: TFunctionName,
+        ...[args]: AgentCallArgs<TAbi, TFunctionName>
+    ) => {
+        if (!address) {
+            setSetupError(chainError);
             return;
         }
 
+        setSetupError(null);
+
         try {
+            // wagmi cannot resolve its parameter type for a generic ABI, the signature above is the type check
             writeContract({
                 address: address,
-                abi: abi,
+                abi: abi as Abi,
                 chainId: chainId,
-                functionName: functionName,
-                args: args
+                functionName: functionName as string,
+                args: (args ?? []) as readonly unknown[]
             });
         } catch (error) {
             console.error('Detailed error:', error);
         }
     };
 
-    return {callContract, isPending, isError, isSuccess};
-}
\ No newline at end of file
+    return {
+        callContract,
+        isPending,
+        isError: isError || !!setupError,
+        isSuccess,
+        /** Failed call, custom errors are decoded with the agent ABI */
+        error: setupError ?? callError,
+        /** Gas and network fee of the preview call (needs a connected wallet) */
+        feeEstimate,
+        isEstimatingFee,
+        feeEstimateError
+    };
+}
@@ -0,0 +1,72 @@
+import {useMemo} from "react";
+import {useReadContracts} from "wagmi";
+import {AGENT_API_ABI} from "../abi/agentApi.abi";
+import {useAgentApi} from "../context/AgentApiContext";
+import {type AileyError, toAileyError} from "../utils/errors";
+
+/**
+ * Result object returned by useAgentInfo hook
+ */
+export interface AgentInfoResult {
+    /** Agent contract address on the current chain */
+    address?: `0x${string}`;
+    /** Agent id registered on the Ailey API contract */
+    agentId?: bigint;
+    /** Ailey API contract the agent forwards calls to */
+    aileyApiContract?: `0x${string}`;
+    /** ALE token address */
+    aleToken?: `0x${string}`;
+    /** Agent contract version */
+    version?: string;
+    /** Whether the agent state is being loaded */
+    isLoading: boolean;
+    /** READ_FAILED (or a decoded revert) if a read failed, WRONG_CHAIN if the chain is unsupported */
+    error: AileyError | null;
+    /** Read the agent state again */
+    refetch: () => void;
+}
+
+/**
+ * Hook to read the agent contract state
+ *
+ * Execution flow:
+ * 1. Resolve the agent deployment for the wallet's current chain
+ * 2. Read agentId, aileyApiContract, aleToken and version in a single multicall
+ * 3. Return typed results, reporting the first failed read as the error
+ */
+export function useAgentInfo(): AgentInfoResult {
+    const {address, chainId, error: chainError} = useAgentApi();
+
+    const agent = {address: address!, abi: AGENT_API_ABI, chainId} as const;
+
+    const {data, isLoading, error, refetch} = useReadContracts({
+        contracts: [
+            {...agent, functionName: 'agentId'},
+            {...agent, functionName: 'aileyApiContract'},
+            {...agent, functionName: 'aleToken'},
+            {...agent, functionName: 'version'}
+        ],
+        query: {enabled: !!address}
+    });
+
+    const [agentId, aileyApiContract, aleToken, version] = data ?? [];
+    const failedRead = data?.find(result => result.status === 'failure');
+
+    const readError = error ?? failedRead?.error;
+    const agentError = useMemo<AileyError | null>(() => chainError ?? (readError ? toAileyError(readError, {
+        abi: AGENT_API_ABI,
+        code: 'READ_FAILED',
+        message: `Failed to read agent info: ${readError.message}`
+    }) : null), [chainError, readError]);
+
+    return {
+        address,
+        agentId: agentId?.result,
+        aileyApiContract: aileyApiContract?.result,
+        aleToken: aleToken?.result,
+        version: version?.result,
+        isLoading,
+        error: agentError,
+        refetch
+    };
+}
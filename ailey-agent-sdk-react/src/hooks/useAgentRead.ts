@@ -0,0 +1,73 @@
+import {useMemo} from "react";
+import {useReadContract} from "wagmi";
+import type {Abi, ContractFunctionArgs, ContractFunctionName, ContractFunctionReturnType} from "viem";
+import {type AgentApiAbi, useAgentApi} from "../context/AgentApiContext";
+import {type AileyError, toAileyError} from "../utils/errors";
+
+type ReadMutability = 'view' | 'pure';
+
+/**
+ * Argument tuple of a view/pure agent function, optional for functions without inputs
+ */
+export type AgentReadArgs<
+    TAbi extends Abi,
+    TFunctionName extends ContractFunctionName<TAbi, ReadMutability>
+> = ContractFunctionArgs<TAbi, ReadMutability, TFunctionName> extends readonly []
+    ? [args?: readonly []]
+    : [args: ContractFunctionArgs<TAbi, ReadMutability, TFunctionName>];
+
+/**
+ * Result object returned by useAgentRead hook
+ */
+export interface AgentReadResult<TData> {
+    /** Decoded return value of the function */
+    data?: TData;
+    /** Whether the read is in progress */
+    isLoading: boolean;
+    /** READ_FAILED (or a decoded revert) if the read failed, WRONG_CHAIN if the chain is unsupported */
+    error: AileyError | null;
+    /** Read the value again */
+    refetch: () => void;
+}
+
+/**
+ * Hook to read any view function of the agent contract
+ *
+ * Counterpart of useAgentApiContract for reads: function names, argument tuples and the
+ * return type are inferred from the ABI passed to AileyProvider (AGENT_API_ABI by default).
+ *
+ * @param functionName View or pure function of the agent contract
+ * @param args Function arguments (omit for functions without inputs)
+ */
+export function useAgentRead<
+    TAbi extends Abi = AgentApiAbi,
+    TFunctionName extends ContractFunctionName<TAbi, ReadMutability> = ContractFunctionName<TAbi, ReadMutability>
+>(
+    functionName: TFunctionName,
+    ...[args]: AgentReadArgs<TAbi, TFunctionName>
+): AgentReadResult<ContractFunctionReturnType<TAbi, ReadMutability, TFunctionName>> {
+    const {address, abi, chainId, error: chainError} = useAgentApi<TAbi>();
+
+    // wagmi cannot resolve its parameter type for a generic ABI, the signature above is the type check
+    const {data, isLoading, error, refetch} = useReadContract({
+        address,
+        abi: abi as Abi,
+        chainId,
+        functionName: functionName as string,
+        args: args as readonly unknown[] | undefined,
+        query: {enabled: !!address}
+    });
+
+    const readError = useMemo<AileyError | null>(() => chainError ?? (error ? toAileyError(error, {
+        abi: abi as Abi,
+        code: 'READ_FAILED',
+        message: `Failed to read ${functionName}: ${error.message}`
+    }) : null), [chainError, error, abi, functionName]);
+
+    return {
+        data: data as ContractFunctionReturnType<TAbi, ReadMutability, TFunctionName> | undefined,
+        isLoading,
+        error: readError,
+        refetch
+    };
+}
@@ -0,0 +1,63 @@
+import {useCallback, useState} from 'react';
+import {useAccount, useSwitchChain} from 'wagmi';
+import {useAgentApi} from '../context/AgentApiContext';
+import {type AileyError, toAileyError, UserRejectedError, WrongChainError} from '../utils/errors';
+
+/**
+ * Result object returned by useAileyChain hook
+ */
+export interface AileyChainResult {
+    /** Wallet's current chain id */
+    chainId: number;
+    /** Whether an agent is deployed on the current chain */
+    isSupported: boolean;
+    /** Chain ids with an agent deployment */
+    supportedChainIds: number[];
+    /** Switch the wallet to a supported chain (default: the configured default chain) */
+    switchToSupportedChain: (chainId?: number) => Promise<void>;
+    /** Whether a chain switch is awaiting wallet confirmation */
+    isSwitching: boolean;
+    /** WRONG_CHAIN on unsupported chains, or the reason a switch failed */
+    error: AileyError | null;
+}
+
+/**
+ * Hook to report whether the wallet is on a chain the agent is deployed on
+ *
+ * Execution flow:
+ * 1. Resolve the wallet's current chain against aileyConfig.deployments
+ * 2. Report unsupported-chain state while connected to a chain without a deployment
+ * 3. switchToSupportedChain() asks the wallet to switch to the requested or default chain
+ */
+export function useAileyChain(): AileyChainResult {
+    const {chainId, isSupported, supportedChainIds, defaultChainId, error: chainError} = useAgentApi();
+    const {isConnected} = useAccount();
+    const {switchChainAsync, isPending: isSwitching} = useSwitchChain();
+
+    const [switchError, setSwitchError] = useState<AileyError | null>(null);
+
+    const switchToSupportedChain = useCallback(async (targetChainId?: number) => {
+        const target = targetChainId ?? defaultChainId;
+        if (target === undefined || !supportedChainIds.includes(target)) {
+            setSwitchError(new WrongChainError(`Chain ${target} has no Ailey agent deployment`, {chainId}));
+            return;
+        }
+
+        try {
+            setSwitchError(null);
+            await switchChainAsync({chainId: target});
+        } catch (e) {
+            const error = toAileyError(e);
+            setSwitchError(error.code === 'USER_REJECTED' ? new UserRejectedError('Chain switch was rejected.', {cause: e}) : error);
+        }
+    }, [chainId, defaultChainId, supportedChainIds, switchChainAsync]);
+
+    return {
+        chainId,
+        isSupported,
+        supportedChainIds,
+        switchToSupportedChain,
+        isSwitching,
+        error: switchError ?? (isConnected ? chainError : null)
+    };
+}
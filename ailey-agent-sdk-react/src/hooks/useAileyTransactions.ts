@@ -0,0 +1,69 @@
+import {useCallback, useMemo} from 'react';
+import {useTransactionStore} from '../context/TransactionStoreContext';
+import type {AileyTransaction, AileyTransactionStatus, AileyTransactionType} from '../utils/transactionStorage';
+
+/**
+ * Filter of useAileyTransactions, omitted fields match every transaction
+ */
+export interface AileyTransactionsFilter {
+    /** Wallet that sent the transactions (compared case-insensitively) */
+    account?: `0x${string}`;
+    chainId?: number;
+    type?: AileyTransactionType;
+    status?: AileyTransactionStatus;
+}
+
+/**
+ * Result object returned by useAileyTransactions hook
+ */
+export interface AileyTransactionsResult {
+    /** Transactions matching the filter, newest first */
+    transactions: AileyTransaction[];
+    /** Transactions matching the filter that are still waiting for their receipt */
+    pendingTransactions: AileyTransaction[];
+    /** Whether the persisted history has been loaded */
+    isLoaded: boolean;
+    /** Remove the transactions matching the filter from the history */
+    clearTransactions: () => void;
+}
+
+// Whether a transaction matches every field set in the filter
+function matchesFilter(transaction: AileyTransaction, {account, chainId, type, status}: AileyTransactionsFilter): boolean {
+    return (!account || transaction.account.toLowerCase() === account.toLowerCase())
+        && (chainId === undefined || transaction.chainId === chainId)
+        && (!type || transaction.type === type)
+        && (!status || transaction.status === status);
+}
+
+/**
+ * Hook to read the transaction history recorded by the SDK flows and agent calls
+ *
+ * Every approval, wrap, swap, liquidity, pool creation and direct agent transaction sent under
+ * AileyProvider is recorded, persisted with aileyConfig.transactionStorage (in memory by default).
+ *
+ * Execution flow:
+ * 1. Read the shared history of the enclosing AileyProvider
+ * 2. Keep the transactions matching the filter (e.g. the connected account on the active chain)
+ *
+ * @param filter Transactions to return (default: all)
+ */
+export function useAileyTransactions(filter: AileyTransactionsFilter = {}): AileyTransactionsResult {
+    const {transactions: allTransactions, isLoaded, clearTransactions: clear} = useTransactionStore();
+    const {account, chainId, type, status} = filter;
+
+    // 2. Filter the history, which the store keeps newest first
+    const transactions = useMemo(
+        () => allTransactions.filter(transaction => matchesFilter(transaction, {account, chainId, type, status})),
+        [allTransactions, account, chainId, type, status]
+    );
+    const pendingTransactions = useMemo(
+        () => transactions.filter(transaction => transaction.status === 'pending'),
+        [transactions]
+    );
+
+    const clearTransactions = useCallback(() => {
+        clear(transaction => matchesFilter(transaction, {account, chainId, type, status}));
+    }, [clear, account, chainId, type, status]);
+
+    return {transactions, pendingTransactions, isLoaded, clearTransactions};
+}
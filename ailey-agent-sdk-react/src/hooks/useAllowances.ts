@@ -0,0 +1,130 @@
+import {useMemo} from 'react';
+import {useAccount, useReadContracts} from 'wagmi';
+import {erc20Abi, formatUnits} from 'viem';
+import {useAgentApi} from '../context/AgentApiContext';
+import {isUnlimitedAllowance} from '../utils/approval';
+import {type CurrencyAddress, isNativeCurrency} from '../utils/native';
+import {AileyError} from '../utils/errors';
+
+/**
+ * Allowance the connected wallet granted for a single token
+ */
+export interface TokenAllowance {
+    /** Token contract address */
+    address: `0x${string}`;
+    /** Address allowed to spend the token */
+    spender: `0x${string}`;
+    /** Raw allowance (in smallest unit) */
+    allowance: bigint;
+    /** Allowance formatted with the token's decimals, 'Unlimited' for unlimited approvals */
+    formattedAllowance: string;
+    /** Whether the allowance is large enough to be treated as unlimited */
+    isUnlimited: boolean;
+    /** Token decimals (undefined until metadata is loaded) */
+    decimals?: number;
+    symbol?: string;
+}
+
+/**
+ * Result object returned by useAllowances hook
+ */
+export interface AllowancesResult {
+    /** Tokens with a non-zero allowance, in the order of the requested tokens */
+    allowances: TokenAllowance[];
+    isLoading: boolean;
+    /** READ_FAILED if allowances or token details could not be read */
+    error: AileyError | null;
+    refetch: () => void;
+}
+
+/**
+ * Hook to list the allowances the connected wallet granted to the agent contract
+ *
+ * Execution flow:
+ * 1. Fetch decimals and symbol of every token in a single multicall (cached, metadata does not change)
+ * 2. Fetch allowance(wallet, spender) of every token in a single multicall
+ * 3. Keep tokens with a non-zero allowance and format them with their decimals
+ *
+ * @param tokenAddresses Tokens to check, the native coin needs no approval and is ignored
+ * @param spender Spender to check (default: agent contract of the active chain)
+ */
+export function useAllowances(tokenAddresses: readonly CurrencyAddress[], spender?: `0x${string}`): AllowancesResult {
+    const {address: userAddress} = useAccount();
+    const {address: agentAddress} = useAgentApi();
+    const spenderAddress = spender ?? agentAddress;
+
+    // Callers usually pass inline arrays, key the queries by content instead of identity
+    const tokensKey = tokenAddresses.filter(address => !isNativeCurrency(address)).join(',');
+    const tokens = useMemo(() => (tokensKey ? tokensKey.split(',') : []) as `0x${string}`[], [tokensKey]);
+
+    // 1. Token metadata
+    const {data: metadataData, isLoading: isMetadataLoading, error: metadataError} = useReadContracts({
+        contracts: tokens.flatMap(address => [
+            {address, abi: erc20Abi, functionName: 'decimals'},
+            {address, abi: erc20Abi, functionName: 'symbol'}
+        ] as const),
+        query: {
+            enabled: tokens.length > 0,
+            staleTime: Infinity
+        }
+    });
+
+    // 2. Allowances granted to the spender
+    const {
+        data: allowanceData,
+        isLoading: isAllowanceLoading,
+        error: allowanceError,
+        refetch
+    } = useReadContracts({
+        contracts: tokens.map(address => ({
+            address,
+            abi: erc20Abi,
+            functionName: 'allowance',
+            args: userAddress && spenderAddress ? [userAddress, spenderAddress] : undefined
+        } as const)),
+        query: {enabled: !!userAddress && !!spenderAddress && tokens.length > 0}
+    });
+
+    // 3. Format non-zero allowances
+    const allowances = useMemo(() => {
+        if (!allowanceData || !spenderAddress) return [];
+
+        return tokens.flatMap((address, i) => {
+            const allowance = allowanceData[i]?.result;
+            if (typeof allowance !== 'bigint' || allowance === 0n) return [];
+
+            const decimals = metadataData?.[i * 2]?.result as number | undefined;
+            const isUnlimited = isUnlimitedAllowance(allowance);
+            let formattedAllowance = allowance.toString();
+            if (isUnlimited) formattedAllowance = 'Unlimited';
+            else if (decimals !== undefined) formattedAllowance = formatUnits(allowance, decimals);
+
+            return [{
+                address,
+                spender: spenderAddress,
+                allowance,
+                formattedAllowance,
+                isUnlimited,
+                decimals,
+                symbol: metadataData?.[i * 2 + 1]?.result as string | undefined
+            }];
+        });
+    }, [tokens, spenderAddress, allowanceData, metadataData]);
+
+    const error = useMemo(() => {
+        if (allowanceError) {
+            return new AileyError('READ_FAILED', 'Failed to retrieve token allowances.', {cause: allowanceError});
+        }
+        if (metadataError) {
+            return new AileyError('READ_FAILED', 'Failed to retrieve token details.', {cause: metadataError});
+        }
+        return null;
+    }, [allowanceError, metadataError]);
+
+    return {
+        allowances,
+        isLoading: isMetadataLoading || isAllowanceLoading,
+        error,
+        refetch
+    };
+}
@@ -1,219 +1,636 @@
-import {useCallback, useEffect, useRef, useState} from 'react';
-import {useAccount, useReadContract, useWaitForTransactionReceipt, useWriteContract} from 'wagmi';
-import {useAgentApi} from '../context/AgentApiContext';
-import {erc20Abi} from 'viem';
-import {useSwapQuote} from './useSwapQuote';
-
-// Default configuration for swaps
-const SWAP_FEE = 100;                    // 0.01% Uniswap pool fee tier (100 basis points = 0.01%)
-const SLIPPAGE_TO_TOLERANCE = 0.005;     // 0.5% slippage tolerance (0.005 = 0.5%)
+import {useCallback, useEffect, useMemo, useState} from 'react';
+import {useAccount, useConfig, useReadContract} from 'wagmi';
+import {type SimulateContractParameters, writeContract} from 'wagmi/actions';
+import {type AgentApiAbi, useAgentApi} from '../context/AgentApiContext';
+import {type ContractFunctionArgs, erc20Abi, isAddressEqual, maxUint256, parseEventLogs} from 'viem';
+import {WRAPPED_NATIVE_ABI} from '../abi/wrappedNative.abi';
+import {type QuoteSource, type TradeType, useSwapQuote} from './useSwapQuote';
+import type {PoolSelection, SwapRoute} from './useSwapRoute';
+import {useDexDeployment} from './useDexDeployment';
+import {GAS_FALLBACKS, type PlannedTransaction, useFeeEstimate} from './useFeeEstimate';
+import {approvalStep, permitStep, simulateAndWrite, type TransactionStep, useTransactionFlow} from './useTransactionFlow';
+import {type PermitSignature, toAgentPermit, usePermitKind} from './usePermitSignature';
+import {type CurrencyAddress, isNativeCurrency, toTokenAddress} from '../utils/native';
+import {type ApprovalStrategy, resolveApprovalAmount, validateApprovalStrategy} from '../utils/approval';
+import {
+    deadlineFromNow,
+    resolveTransactionSettings,
+    type ResolvedTransactionSettings,
+    type TransactionSettings
+} from '../utils/transactionSettings';
+import {AileyError, PoolNotFoundError, toAileyError} from '../utils/errors';
 
 /**
  * Parameters for initiating a swap through the agent contract
+ *
+ * slippageBps and deadlineMinutes override aileyConfig.transactionSettings for this swap.
  */
-export interface SwapParams {
-    /** Source token contract address */
-    tokenInAddress: `0x${string}`;
-    /** Destination token contract address */
-    tokenOutAddress: `0x${string}`;
-    /** Amount of input tokens to swap (in wei/smallest unit) */
-    amountIn: bigint;
-    /** Optional recipient address (defaults to connected wallet) */
+export interface SwapParams extends TransactionSettings {
+    /** Source token contract address, or 'native' to wrap the native coin before swapping */
+    tokenInAddress: CurrencyAddress;
+    /** Destination token contract address, or 'native' to unwrap the output after swapping */
+    tokenOutAddress: CurrencyAddress;
+    /** Swap direction (default: 'exactInput') */
+    tradeType?: TradeType;
+    /** Amount of input tokens to swap (in wei/smallest unit), required for exact-input swaps */
+    amountIn?: bigint;
+    /** Exact amount of output tokens to buy (in wei/smallest unit), required for exact-output swaps */
+    amountOut?: bigint;
+    /** Optional recipient address (defaults to connected wallet, must be the wallet for native output) */
     recipient?: `0x${string}`;
+    /** Tokens the router may hop through (e.g. WBNB, USDT) */
+    intermediateTokens?: `0x${string}`[];
+    /** Fee tiers to consider for every hop (default: all standard tiers) */
+    feeTiers?: number[];
+    /** How to choose among fee tiers of the same pair (default: 'best-price') */
+    poolSelection?: PoolSelection;
+    /** Quote backend used to size slippage limits (default: 'local') */
+    quoteSource?: QuoteSource;
+    /**
+     * How much of the input token to approve when the allowance is short (default: 'exact')
+     * Setting it turns permits off unless permit is true, a permit covers exactly the swap amount.
+     */
+    approvalStrategy?: ApprovalStrategy;
+    /**
+     * Sign an EIP-2612 or Permit2 permit instead of sending an approval when the token supports one
+     * (default: true without an approvalStrategy, false with one)
+     * Permits cover exactly the swap amount, approvalStrategy only applies to approval transactions.
+     */
+    permit?: boolean;
 }
 
 /**
  * State machine states for the swap process
- * Flow: idle -> quoting -> checking-approval -> (approving if needed) -> swapping -> complete
+ * Flow: idle -> quoting -> (wrapping for native input) -> checking-approval
+ *       -> (signing-permit or approving if needed) -> swapping -> (unwrapping for native output)
+ *       -> (unwrapping-leftover for exact-output swaps with native input) -> complete
  * Can transition to error from any state if something fails
  */
-export type SwapStep = 'idle' | 'quoting' | 'checking-approval' | 'approving' | 'swapping' | 'complete' | 'error';
+export type SwapStep =
+    'idle'
+    | 'quoting'
+    | 'wrapping'
+    | 'checking-approval'
+    | 'signing-permit'
+    | 'approving'
+    | 'swapping'
+    | 'unwrapping'
+    | 'unwrapping-leftover'
+    | 'complete'
+    | 'error';
+
+/**
+ * Swap details fixed when the quote is ready, shared by the transaction steps
+ */
+interface SwapFlowState {
+    params: SwapParams;
+    account: `0x${string}`;
+    tokenIn: `0x${string}`;
+    tokenOut: `0x${string}`;
+    route: SwapRoute;
+    /** Amount the agent contract may pull from the user (exact input or maximum input) */
+    amountToApprove: bigint;
+    amountOutMinimum?: bigint;
+    amountInMaximum?: bigint;
+    deadlineMinutes: number;
+    /** Whether to try a permit before the approval (params.permit, or no approvalStrategy set) */
+    usePermit: boolean;
+    /** Permit signed instead of an approval, passed to the agent's *WithPermit entry point */
+    permit?: PermitSignature;
+    /** Wrapped-native amount the swap delivered to the wallet, unwrapped for native output */
+    received?: bigint;
+    /** Wrapped-native input the swap did not spend (exact-output with native input), unwrapped back */
+    leftover?: bigint;
+}
+
+// Swap step of each transaction step
+const FLOW_STEPS: Record<string, SwapStep> = {
+    wrap: 'wrapping',
+    permit: 'signing-permit',
+    approve: 'approving',
+    swap: 'swapping',
+    unwrap: 'unwrapping',
+    'unwrap-leftover': 'unwrapping-leftover'
+};
+
+// Agent swap functions and their argument tuples, the *WithPermit variants take the permit data last
+type SwapFunctionName = 'callSwap' | 'callSwapExactOutput' | 'callSwapMultihop' | 'callSwapMultihopExactOutput';
+type CallOf<F extends SwapFunctionName | `${SwapFunctionName}WithPermit`> = {
+    [N in F]: { functionName: N; args: ContractFunctionArgs<AgentApiAbi, 'nonpayable', N> }
+}[F];
+type SwapCall = CallOf<SwapFunctionName | `${SwapFunctionName}WithPermit`>;
+
+// Agent function and arguments of the swap transaction, with the signed permit if there is one
+function swapCall(state: SwapFlowState, deadline: bigint): SwapCall {
+    const call = allowanceSwapCall(state, deadline);
+    if (!state.permit) return call;
+    return {
+        functionName: `${call.functionName}WithPermit`,
+        args: [...call.args, toAgentPermit(state.permit)]
+    } as SwapCall;
+}
+
+// Agent function and arguments of a swap pulling the input through the existing allowance
+function allowanceSwapCall(state: SwapFlowState, deadline: bigint): CallOf<SwapFunctionName> {
+    const {params, route, tokenIn, tokenOut} = state;
+    // Native output is unwrapped from the wallet after the swap
+    const recipient = isNativeCurrency(params.tokenOutAddress) ? state.account : params.recipient || state.account;
+
+    if (route.fees.length > 1) {
+        // Multi-hop swaps pass the encoded path (reversed for exact-output)
+        return params.tradeType === 'exactOutput' ? {
+            functionName: 'callSwapMultihopExactOutput',
+            args: [
+                route.path,                          // Encoded swap path
+                params.amountOut!,                   // Exact output amount
+                state.amountInMaximum!,              // Maximum input (slippage protection)
+                recipient,                           // Recipient address
+                deadline                             // Transaction deadline
+            ]
+        } : {
+            functionName: 'callSwapMultihop',
+            args: [
+                route.path,                          // Encoded swap path
+                params.amountIn!,                    // Exact input amount
+                state.amountOutMinimum!,             // Minimum output (slippage protection)
+                recipient,                           // Recipient address
+                deadline                             // Transaction deadline
+            ]
+        };
+    }
+    return params.tradeType === 'exactOutput' ? {
+        functionName: 'callSwapExactOutput',
+        args: [
+            tokenIn,                                 // Token to sell
+            tokenOut,                                // Token to buy
+            route.fees[0],                           // Uniswap fee tier of the selected pool
+            params.amountOut!,                       // Exact output amount
+            state.amountInMaximum!,                  // Maximum input (slippage protection)
+            recipient,                               // Recipient address
+            deadline                                 // Transaction deadline
+        ]
+    } : {
+        functionName: 'callSwap',
+        args: [
+            tokenIn,                                 // Token to sell
+            tokenOut,                                // Token to buy
+            route.fees[0],                           // Uniswap fee tier of the selected pool
+            params.amountIn!,                        // Exact input amount
+            state.amountOutMinimum!,                 // Minimum output (slippage protection)
+            recipient,                               // Recipient address
+            deadline                                 // Transaction deadline
+        ]
+    };
+}
 
 /**
  * Hook for executing swaps through the Ailey agent contract
  *
  * Full execution flow:
- * 1. Get quote from useSwapQuote to determine expected output amounts
- * 2. Check if user has sufficient token allowance for the agent contract
- * 3. If needed, execute approval transaction and wait for confirmation
- * 4. Execute the actual swap through agent.callSwap() with slippage protection
- * 5. Monitor transaction status and update UI accordingly
+ * 1. Get quote from useSwapQuote to determine expected output (exact-input) or required input (exact-output)
+ * 2. For native input, wrap the input amount (or maximum input) into the wrapped-native token
+ * 3. Check if user has sufficient token allowance for the agent contract
+ * 4. If needed, sign an EIP-2612 or Permit2 permit for the amount, or when the token supports neither
+ *    (or permits are off, see SwapParams.permit) execute approval transaction and wait for confirmation
+ *    (exact-output swaps approve the maximum input amount)
+ * 5. Execute the actual swap through the agent with slippage protection and deadline
+ *    (per-call settings, then aileyConfig.transactionSettings, then 0.5% / 10 minutes):
+ *    - single hop: agent.callSwap() / agent.callSwapExactOutput()
+ *    - multi-hop: agent.callSwapMultihop() / agent.callSwapMultihopExactOutput() with the encoded path
+ *    - with a signed permit: the matching *WithPermit entry point
+ *    The swap is simulated first, a call that would revert fails with its decoded error before the wallet prompt
+ * 6. For native output, unwrap the wrapped-native amount received by the swap
+ * 7. For exact-output swaps with native input, unwrap the part of the wrapped maximum input the swap
+ *    did not spend (read from the swap's Transfer events)
+ * 8. Monitor transaction status and update UI accordingly
+ *
+ * Steps 2-7 run on useTransactionFlow, retry() resumes from the failed transaction.
+ *
+ * Pass the params of the swap the user is about to send as preview to quote it and estimate the gas and
+ * network fee of every planned transaction (wrap, approval, swap, unwraps) before callSwap(). A permit
+ * signature sends no transaction, its redemption is included in the swap estimate. Once a swap
+ * is called, quote and fee estimate follow the called params.
+ *
+ * @param preview Params to quote and estimate fees for before callSwap()
  */
-export function useCallSwap() {
-    const {address: agentAddress, abi: agentAbi, chainId} = useAgentApi();
+export function useCallSwap(preview?: SwapParams) {
+    const {address: agentAddress, abi: agentAbi, chainId, transactionSettings, error: chainError} = useAgentApi();
     const {address: userAddress} = useAccount();
+    const {deployment} = useDexDeployment();
+    const config = useConfig();
+    const wrappedNative = deployment?.wrappedNative;
 
-    const [step, setStep] = useState<SwapStep>('idle');
-    const [error, setError] = useState<string | null>(null);
+    // Steps before the transactions start, the flow reports the rest
+    const [phase, setPhase] = useState<'idle' | 'quoting' | 'flow' | 'error'>('idle');
+    const [error, setError] = useState<AileyError | null>(null);
     const [currentParams, setCurrentParams] = useState<SwapParams | null>(null);
+    const [settings, setSettings] = useState<ResolvedTransactionSettings | null>(null);
+
+    // Swap being sent, or the previewed one before callSwap()
+    const activeParams = currentParams ?? preview;
+    const previewSettings = useMemo(() => {
+        try {
+            return resolveTransactionSettings({slippageBps: preview?.slippageBps, deadlineMinutes: preview?.deadlineMinutes},
+                transactionSettings);
+        } catch {
+            return undefined;
+        }
+    }, [preview?.slippageBps, preview?.deadlineMinutes, transactionSettings]);
+    const activeSettings = currentParams ? settings : previewSettings;
 
     // Get swap quote with fixed parameters
     const {
         estimatedAmountOut,
         amountOutMinimum,
+        estimatedAmountIn,
+        amountInMaximum,
+        slippageBps,
+        route,
         isLoading: isQuoting,
         error: quoteError
-    } = useSwapQuote(currentParams ? {
-        tokenInAddress: currentParams.tokenInAddress,
-        tokenOutAddress: currentParams.tokenOutAddress,
-        amountIn: currentParams.amountIn,
-        slippageTolerance: SLIPPAGE_TO_TOLERANCE,
-        fee: SWAP_FEE
+    } = useSwapQuote(activeParams ? {
+        tokenInAddress: activeParams.tokenInAddress,
+        tokenOutAddress: activeParams.tokenOutAddress,
+        tradeType: activeParams.tradeType,
+        amountIn: activeParams.amountIn,
+        amountOut: activeParams.amountOut,
+        slippageBps: activeSettings?.slippageBps,
+        feeTiers: activeParams.feeTiers,
+        poolSelection: activeParams.poolSelection,
+        quoteSource: activeParams.quoteSource,
+        intermediateTokens: activeParams.intermediateTokens
     } : undefined);
 
-    // Check token allowance (manually triggered)
-    const {refetch: refetchAllowance} = useReadContract({
-        address: currentParams?.tokenInAddress,
+    const isExactOutput = activeParams?.tradeType === 'exactOutput';
+
+    // Pools and the agent only handle ERC-20 tokens, the native coin goes through its wrapped token
+    const tokenInAddress = activeParams ? toTokenAddress(activeParams.tokenInAddress, wrappedNative) : undefined;
+    const tokenOutAddress = activeParams ? toTokenAddress(activeParams.tokenOutAddress, wrappedNative) : undefined;
+
+    // Amount the agent contract may pull from the user (exact input or maximum input)
+    const amountToApprove = isExactOutput ? amountInMaximum : activeParams?.amountIn;
+    const isQuoteReady = !!route && (isExactOutput ? !!amountInMaximum : !!amountOutMinimum);
+
+    // Swap details for the transaction steps, once the quote is ready
+    const flowState = useMemo((): SwapFlowState | undefined => {
+        if (!isQuoteReady || !amountToApprove || !activeParams || !activeSettings || !userAddress ||
+            !tokenInAddress || !tokenOutAddress) {
+            return undefined;
+        }
+        return {
+            params: activeParams,
+            account: userAddress,
+            tokenIn: tokenInAddress,
+            tokenOut: tokenOutAddress,
+            route: route!,
+            amountToApprove,
+            amountOutMinimum,
+            amountInMaximum,
+            deadlineMinutes: activeSettings.deadlineMinutes,
+            usePermit: activeParams.permit ?? activeParams.approvalStrategy === undefined
+        };
+    }, [isQuoteReady, amountToApprove, activeParams, activeSettings, userAddress, tokenInAddress, tokenOutAddress,
+        route, amountOutMinimum, amountInMaximum]);
+
+    // Allowance the wallet granted the agent, to plan the approval transaction
+    const {data: allowance} = useReadContract({
+        address: flowState?.tokenIn,
         abi: erc20Abi,
+        chainId: chainId,
         functionName: 'allowance',
-        args: userAddress && agentAddress ? [userAddress, agentAddress] : undefined,
-        query: { enabled: false }
+        args: [userAddress!, agentAddress!],
+        query: {enabled: !!flowState && !!agentAddress}
     });
 
-    // Token approval transaction
-    const {
-        writeContract: writeApprove,
-        data: approveTxHash,
-        isPending: isApproving,
-        error: approveError,
-    } = useWriteContract();
+    // Whether a permit can replace the approval, only read when the allowance is short
+    const needsApproval = !!flowState && allowance !== undefined && allowance < flowState.amountToApprove;
+    const {permitKind} = usePermitKind(
+        needsApproval && flowState.usePermit ? flowState.tokenIn : undefined,
+        userAddress,
+        flowState?.amountToApprove,
+        chainId
+    );
 
-    // Swap transaction
-    const {
-        writeContract: writeSwap,
-        data: swapTxHash,
-        isPending: isSwapping,
-        error: swapError,
-    } = useWriteContract();
-
-    const {isSuccess: isApprovalSuccess} = useWaitForTransactionReceipt({ hash: approveTxHash });
-    const {isSuccess: isSwapSuccess} = useWaitForTransactionReceipt({ hash: swapTxHash });
-
-    // Execute swap through agent contract
-    const executeSwap = useCallback(() => {
-        if (!agentAddress || !agentAbi || !chainId || !userAddress || !currentParams || !amountOutMinimum) {
-            setError('Failed to execute swap due to missing parameters.');
-            setStep('error');
-            return;
+    // Transactions the swap will send, with the calls that can be estimated before it runs
+    const plannedTransactions = useMemo((): PlannedTransaction[] | undefined => {
+        if (!flowState || !agentAddress || allowance === undefined) return undefined;
+
+        const isNativeIn = isNativeCurrency(flowState.params.tokenInAddress);
+        // The permit step signs instead of approving, wait until the token's permit support is known
+        const triesPermit = needsApproval && flowState.usePermit;
+        if (triesPermit && !permitKind) return undefined;
+        const signsPermit = triesPermit && permitKind !== 'approve';
+        // Amount the approval step will approve under the strategy, an invalid strategy fails when the swap is called
+        let approvalAmount: bigint;
+        try {
+            approvalAmount = resolveApprovalAmount(flowState.amountToApprove, flowState.params.approvalStrategy);
+        } catch {
+            return undefined;
+        }
+        const extraHops = BigInt(flowState.route.fees.length - 1);
+        const planned: PlannedTransaction[] = [];
+
+        if (isNativeIn) {
+            planned.push({
+                id: 'wrap',
+                call: {
+                    address: flowState.tokenIn,
+                    abi: WRAPPED_NATIVE_ABI,
+                    functionName: 'deposit',
+                    value: flowState.amountToApprove
+                },
+                fallbackGas: GAS_FALLBACKS.wrap
+            });
         }
+        if (needsApproval && !signsPermit) {
+            planned.push({
+                id: 'approve',
+                call: {
+                    address: flowState.tokenIn,
+                    abi: erc20Abi,
+                    functionName: 'approve',
+                    args: [agentAddress, approvalAmount]
+                },
+                fallbackGas: GAS_FALLBACKS.approve
+            });
+        }
+        planned.push({
+            id: 'swap',
+            // The agent can only pull the input once it is wrapped and approved (or permitted), until then the
+            // fallback applies. Any future deadline uses the same gas, a fixed one keeps the estimate from refreshing every second.
+            call: isNativeIn || needsApproval ? undefined : {
+                address: agentAddress,
+                abi: agentAbi,
+                ...swapCall(flowState, maxUint256)
+            },
+            fallbackGas: GAS_FALLBACKS.swap + GAS_FALLBACKS.swapPerExtraHop * extraHops +
+                (signsPermit ? GAS_FALLBACKS.permit : 0n)
+        });
+        if (isNativeCurrency(flowState.params.tokenOutAddress)) {
+            planned.push({id: 'unwrap', fallbackGas: GAS_FALLBACKS.unwrap});
+        }
+        if (isNativeIn && flowState.params.tradeType === 'exactOutput') {
+            // Only sent when the swap spends less than the maximum input, the usual case
+            planned.push({id: 'unwrap-leftover', fallbackGas: GAS_FALLBACKS.unwrap});
+        }
+        return planned;
+    }, [flowState, agentAddress, agentAbi, allowance, needsApproval, permitKind]);
 
-        setStep('swapping');
-        const recipient = currentParams.recipient || userAddress;
-        const deadline = BigInt(Math.floor(Date.now() / 1000) + 60 * 10); // 10 minutes
+    const {feeEstimate, isLoading: isEstimatingFee, error: feeEstimateError} = useFeeEstimate(plannedTransactions);
 
-        writeSwap({
-            address: agentAddress,
-            abi: agentAbi,
+    // Transaction steps: wrap (native input) -> permit or approve (if needed) -> swap -> unwrap (native output)
+    // -> unwrap leftover (exact-output with native input)
+    const steps: TransactionStep<SwapFlowState>[] = [
+        {
+            // Wrap exactly what the agent may pull, the wrapped token is then approved as usual
+            id: 'wrap',
+            type: 'wrap',
+            params: state => ({token: state.tokenIn, amount: state.amountToApprove}),
+            check: state => isNativeCurrency(state.params.tokenInAddress),
+            write: state => writeContract(config, {
+                address: state.tokenIn,
+                abi: WRAPPED_NATIVE_ABI,
+                chainId: chainId,
+                functionName: 'deposit',
+                value: state.amountToApprove
+            })
+        },
+        permitStep<SwapFlowState>('permit', config, state => ({
+            token: state.tokenIn,
+            owner: state.account,
+            spender: agentAddress!,
+            amount: state.amountToApprove,
             chainId: chainId,
-            functionName: 'callSwap',
-            args: [
-                currentParams.tokenInAddress,    // Token to sell
-                currentParams.tokenOutAddress,   // Token to buy
-                SWAP_FEE,                        // Uniswap fee tier (0.01%)
-                currentParams.amountIn,          // Exact input amount
-                amountOutMinimum,                // Minimum output (slippage protection)
-                recipient,                       // Recipient address
-                deadline                         // Transaction deadline
-            ]
-        });
-    }, [agentAddress, agentAbi, chainId, userAddress, currentParams, amountOutMinimum, writeSwap]);
+            enabled: state.usePermit
+        }), permit => ({permit})),
+        approvalStep<SwapFlowState>('approve', config, state => ({
+            token: state.tokenIn,
+            owner: state.account,
+            spender: agentAddress!,
+            amount: state.amountToApprove,
+            strategy: state.params.approvalStrategy,
+            chainId: chainId,
+            skip: !!state.permit
+        })),
+        {
+            // Execute swap through agent contract
+            id: 'swap',
+            type: 'swap',
+            params: state => ({
+                tokenIn: state.params.tokenInAddress,
+                tokenOut: state.params.tokenOutAddress,
+                tradeType: state.params.tradeType ?? 'exactInput',
+                amountIn: state.params.amountIn,
+                amountOut: state.params.amountOut,
+                amountOutMinimum: state.amountOutMinimum,
+                amountInMaximum: state.amountInMaximum,
+                fees: state.route.fees,
+                recipient: state.params.recipient ?? state.account,
+                permit: state.permit?.kind
+            }),
+            write: state => simulateAndWrite(config, {
+                address: agentAddress!,
+                abi: agentAbi,
+                chainId: chainId,
+                ...swapCall(state, deadlineFromNow(state.deadlineMinutes))
+            } as SimulateContractParameters),
+            confirm: (receipt, state) => {
+                const transfers = parseEventLogs({abi: erc20Abi, eventName: 'Transfer', logs: receipt.logs});
 
-    const callSwap = useCallback((params: SwapParams) => {
-        if (!agentAddress || !userAddress) {
-            setError('Please connect your wallet');
-            setStep('error');
-            return;
-        }
-        setCurrentParams(params);
-        setError(null);
-        setStep('quoting');
-    }, [agentAddress, userAddress]);
+                if (isNativeCurrency(state.params.tokenInAddress)) {
+                    if (state.params.tradeType !== 'exactOutput') return;
 
-    // Main state machine: quote -> check allowance -> approve (if needed) -> swap
-    useEffect(() => {
-        const processSwap = async () => {
-            if (step === 'quoting' && !isQuoting) {
-                if (quoteError) {
-                    setError(quoteError);
-                    setStep('error');
-                    return;
+                    // The maximum input was wrapped, the part the swap did not pull from the wallet is left over
+                    const spent = transfers
+                        .filter(log => isAddressEqual(log.address, state.tokenIn) && isAddressEqual(log.args.from, state.account))
+                        .reduce((total, log) => total + log.args.value, 0n);
+                    return {leftover: spent < state.amountToApprove ? state.amountToApprove - spent : 0n};
                 }
+                if (!isNativeCurrency(state.params.tokenOutAddress)) return;
 
-                if (amountOutMinimum && currentParams) {
-                    if (!agentAddress) {
-                        setError('Agent contract address is not available.');
-                        setStep('error');
-                        return;
-                    }
-
-                    // Check allowance and decide next step
-                    setStep('checking-approval');
-                    const allowanceResult = await refetchAllowance();
-                    const allowance = allowanceResult.data ?? 0n;
-
-                    if (allowance < currentParams.amountIn) {
-                        // Need approval first
-                        setStep('approving');
-                        writeApprove({
-                            address: currentParams.tokenInAddress,
-                            abi: erc20Abi,
-                            chainId: chainId,
-                            functionName: 'approve',
-                            args: [
-                                agentAddress,              // Spender (agent contract)
-                                currentParams.amountIn     // Amount to approve
-                            ]
-                        });
-                    } else {
-                        // Already approved, go straight to swap
-                        executeSwap();
-                    }
+                // Wrapped-native amount the swap actually delivered to the wallet
+                const received = transfers
+                    .filter(log => isAddressEqual(log.address, state.tokenOut) && isAddressEqual(log.args.to, state.account))
+                    .reduce((total, log) => total + log.args.value, 0n);
+                return {received};
+            }
+        },
+        {
+            id: 'unwrap',
+            type: 'unwrap',
+            params: state => ({token: state.tokenOut, amount: state.received}),
+            check: state => isNativeCurrency(state.params.tokenOutAddress),
+            write: async state => {
+                if (!state.received) {
+                    throw new Error('Swap succeeded but no wrapped native output was found to unwrap.');
                 }
+                return writeContract(config, {
+                    address: state.tokenOut,
+                    abi: WRAPPED_NATIVE_ABI,
+                    chainId: chainId,
+                    functionName: 'withdraw',
+                    args: [state.received]
+                });
             }
-        };
-        processSwap();
-    }, [step, isQuoting, quoteError, amountOutMinimum, currentParams, refetchAllowance, writeApprove, agentAddress, chainId, executeSwap]);
+        },
+        {
+            // Return the unspent wrapped input of an exact-output swap to the native coin
+            id: 'unwrap-leftover',
+            type: 'unwrap',
+            params: state => ({token: state.tokenIn, amount: state.leftover}),
+            check: state => !!state.leftover && state.leftover > 0n,
+            write: state => writeContract(config, {
+                address: state.tokenIn,
+                abi: WRAPPED_NATIVE_ABI,
+                chainId: chainId,
+                functionName: 'withdraw',
+                args: [state.leftover!]
+            })
+        }
+    ];
 
-    // Approval completed -> execute swap
-    useEffect(() => {
-        if (isApprovalSuccess && step === 'approving') {
-            executeSwap();
+    const flow = useTransactionFlow(steps);
+    const {start: startFlow, reset: resetFlow} = flow;
+
+    const callSwap = useCallback((params: SwapParams) => {
+        if (!userAddress) {
+            setError(new AileyError('WALLET_NOT_CONNECTED', 'Please connect your wallet'));
+            setPhase('error');
+            return;
         }
-    }, [isApprovalSuccess, step, executeSwap]);
 
-    // Swap completed -> mark as complete
-    useEffect(() => {
-        if (isSwapSuccess) {
-            setStep('complete');
+        if (!agentAddress) {
+            setError(chainError);
+            setPhase('error');
+            return;
+        }
+
+        const amount = params.tradeType === 'exactOutput' ? params.amountOut : params.amountIn;
+        if (!amount || amount <= 0n) {
+            setError(new AileyError('INVALID_INPUT',
+                params.tradeType === 'exactOutput' ? 'Please enter a valid output amount' : 'Please enter a valid input amount'));
+            setPhase('error');
+            return;
         }
-    }, [isSwapSuccess]);
 
-    // Handle transaction errors
+        const isNative = isNativeCurrency(params.tokenInAddress) || isNativeCurrency(params.tokenOutAddress);
+        if (isNative && !wrappedNative) {
+            setError(new AileyError('NOT_CONFIGURED', `Wrapped native token is not configured for chain ${chainId}. Add wrappedNative to aileyConfig.dex.`));
+            setPhase('error');
+            return;
+        }
+
+        if (isNativeCurrency(params.tokenOutAddress) && params.recipient && !isAddressEqual(params.recipient, userAddress)) {
+            setError(new AileyError('INVALID_INPUT', 'Native coin output can only be sent to the connected wallet'));
+            setPhase('error');
+            return;
+        }
+
+        // Per-call slippage and deadline over the provider defaults, and the approval strategy
+        // (checked against the input amount once it is quoted for exact-output swaps)
+        let resolvedSettings: ResolvedTransactionSettings;
+        try {
+            resolvedSettings = resolveTransactionSettings(params, transactionSettings);
+            validateApprovalStrategy(params.approvalStrategy, params.tradeType === 'exactOutput' ? undefined : params.amountIn);
+        } catch (e) {
+            setError(toAileyError(e));
+            setPhase('error');
+            return;
+        }
+
+        resetFlow();
+        setCurrentParams(params);
+        setSettings(resolvedSettings);
+        setError(null);
+        setPhase('quoting');
+    }, [agentAddress, userAddress, chainError, wrappedNative, chainId, transactionSettings, resetFlow]);
+
+    // Quote ready -> run the transaction steps with the quoted amounts
     useEffect(() => {
-        const txError = approveError || swapError;
-        if (txError) {
-            const message = txError.message.includes('User rejected') ? 'Transaction was rejected.' : txError.message;
-            setError(message);
-            setStep('error');
+        if (phase !== 'quoting' || isQuoting) return;
+
+        if (quoteError) {
+            setError(quoteError);
+            setPhase('error');
+            return;
+        }
+
+        if (flowState) {
+            try {
+                validateApprovalStrategy(flowState.params.approvalStrategy, flowState.amountToApprove);
+            } catch (e) {
+                setError(toAileyError(e));
+                setPhase('error');
+                return;
+            }
+
+            setPhase('flow');
+            startFlow(flowState);
+        } else {
+            // Quote finished without a route or limits and without reporting why
+            if (!route) setError(new PoolNotFoundError('No route found for this swap'));
+            else if (!userAddress) setError(new AileyError('WALLET_NOT_CONNECTED', 'Please connect your wallet'));
+            else setError(new AileyError('INVALID_INPUT', 'The quote has no slippage limits for this swap'));
+            setPhase('error');
         }
-    }, [approveError, swapError]);
+    }, [phase, isQuoting, quoteError, flowState, route, userAddress, startFlow]);
 
     const resetSwap = useCallback(() => {
-        setStep('idle');
+        setPhase('idle');
         setError(null);
         setCurrentParams(null);
-    }, []);
+        setSettings(null);
+        resetFlow();
+    }, [resetFlow]);
+
+    // Unspent wrapped input of exact-output swaps with native input, actual once the swap is confirmed
+    const isNativeExactOutput = !!activeParams && isNativeCurrency(activeParams.tokenInAddress) && isExactOutput;
+    const inputLeftover = !isNativeExactOutput ? undefined
+        : flow.state?.leftover ?? (amountInMaximum !== undefined && estimatedAmountIn !== undefined
+            ? amountInMaximum - estimatedAmountIn : undefined);
+
+    // Map flow progress to swap steps
+    let step: SwapStep;
+    if (phase !== 'flow') step = phase;
+    else if (flow.status === 'complete') step = 'complete';
+    else if (flow.status === 'error') step = 'error';
+    else if (flow.status === 'cancelled') step = 'idle';
+    else if ((flow.currentStepId === 'permit' || flow.currentStepId === 'approve') &&
+        flow.stepStatuses[flow.currentStepId] === 'checking') step = 'checking-approval';
+    else step = FLOW_STEPS[flow.currentStepId ?? ''] ?? 'checking-approval';
 
     return {
         callSwap,
         resetSwap,
+        /** Resume a failed swap from the failed transaction */
+        retry: flow.retry,
+        /** Stop before the next transaction (a transaction already sent may still be mined) */
+        cancel: flow.cancel,
         step,
+        stepStatuses: flow.stepStatuses,
         estimatedAmountOut,
         amountOutMinimum,
-        error,
-        isPending: isQuoting || isApproving || isSwapping || step === 'checking-approval',
+        estimatedAmountIn,
+        amountInMaximum,
+        /**
+         * Wrapped-native input an exact-output swap with native input leaves unspent and unwraps back:
+         * expected (maximum minus estimated input) until the swap is confirmed, then the actual amount
+         */
+        inputLeftover,
+        /** Slippage tolerance of the quoted limits in basis points ('auto' resolved) */
+        slippageBps,
+        route,
+        /** Gas and network fee of the transactions the swap plans to send (needs a connected wallet) */
+        feeEstimate,
+        isEstimatingFee,
+        feeEstimateError,
+        error: phase === 'flow' ? flow.error : error,
+        isPending: isQuoting || flow.isPending,
         isSuccess: step === 'complete',
         isError: step === 'error',
-        swapTxHash
+        wrapTxHash: flow.hashes.wrap,
+        swapTxHash: flow.hashes.swap,
+        unwrapTxHash: flow.hashes.unwrap,
+        unwrapLeftoverTxHash: flow.hashes['unwrap-leftover']
     };
-}
\ No newline at end of file
+}
@@ -0,0 +1,119 @@
+import {useCallback, useState} from 'react';
+import {useAccount, useConfig} from 'wagmi';
+import {maxUint128} from 'viem';
+import {UNISWAP_V3_POSITION_MANAGER_ABI} from '../abi/uniswapV3.abi';
+import {useDexDeployment} from './useDexDeployment';
+import {simulateAndWrite, type TransactionStepStatus, useTransactionFlow} from './useTransactionFlow';
+import {AileyError} from '../utils/errors';
+
+/**
+ * State machine states for collecting fees
+ * Flow: idle -> collecting -> complete
+ * Can transition to error from any state if something fails
+ */
+export type CollectFeesStep = 'idle' | 'collecting' | 'complete' | 'error';
+
+/**
+ * Parameters for collecting the fees of a position
+ */
+export interface CollectFeesParams {
+    /** Position NFT id */
+    tokenId: bigint;
+    /** Address receiving the tokens (default: connected wallet) */
+    recipient?: `0x${string}`;
+}
+
+/**
+ * Result object returned by useCollectFees hook
+ */
+export interface CollectFeesResult {
+    /** Collect all fees and withdrawn liquidity owed to the position */
+    collectFees: (params: CollectFeesParams) => void;
+    /** Reset state to initial values */
+    reset: () => void;
+    /** Send the collect transaction again after a failure */
+    retry: () => void;
+    step: CollectFeesStep;
+    stepStatuses: Record<string, TransactionStepStatus>;
+    error: AileyError | null;
+    isPending: boolean;
+    isSuccess: boolean;
+    isError: boolean;
+    collectTxHash?: `0x${string}`;
+}
+
+/**
+ * Hook to collect the fees of a Uniswap V3 position owned by the connected wallet
+ *
+ * Execution flow:
+ * 1. Resolve the NonfungiblePositionManager from the active chain's DEX deployment
+ * 2. Call collect() with the maximum amounts, so every owed token is transferred
+ * 3. Wait for confirmation and update state accordingly
+ */
+export function useCollectFees(): CollectFeesResult {
+    const {deployment, chainId} = useDexDeployment();
+    const {address: userAddress} = useAccount();
+    const config = useConfig();
+    const positionManager = deployment?.positionManager;
+
+    const [error, setError] = useState<AileyError | null>(null);
+
+    const flow = useTransactionFlow<{ positionManager: `0x${string}`; tokenId: bigint; recipient: `0x${string}` }>([
+        {
+            id: 'collect',
+            type: 'collect-fees',
+            params: state => ({tokenId: state.tokenId, recipient: state.recipient}),
+            write: state => simulateAndWrite(config, {
+                address: state.positionManager,
+                abi: UNISWAP_V3_POSITION_MANAGER_ABI,
+                chainId: chainId,
+                functionName: 'collect',
+                args: [{
+                    tokenId: state.tokenId,
+                    recipient: state.recipient,
+                    amount0Max: maxUint128,
+                    amount1Max: maxUint128
+                }]
+            })
+        }
+    ]);
+    const {start: startFlow, reset: resetFlow} = flow;
+
+    const collectFees = useCallback(({tokenId, recipient}: CollectFeesParams) => {
+        if (!userAddress) {
+            setError(new AileyError('WALLET_NOT_CONNECTED', 'Please connect your wallet'));
+            return;
+        }
+        if (!positionManager) {
+            setError(new AileyError('NOT_CONFIGURED', `NonfungiblePositionManager address is not configured for chain ${chainId}. Add positionManager to aileyConfig.dex.`));
+            return;
+        }
+
+        setError(null);
+        startFlow({positionManager, tokenId, recipient: recipient ?? userAddress});
+    }, [userAddress, positionManager, chainId, startFlow]);
+
+    const reset = useCallback(() => {
+        setError(null);
+        resetFlow();
+    }, [resetFlow]);
+
+    let step: CollectFeesStep;
+    if (error || flow.status === 'error') step = 'error';
+    else if (flow.status === 'running') step = 'collecting';
+    else if (flow.status === 'complete') step = 'complete';
+    else step = 'idle';
+
+    return {
+        collectFees,
+        reset,
+        retry: flow.retry,
+        step,
+        stepStatuses: flow.stepStatuses,
+        error: error ?? flow.error,
+        isPending: flow.isPending,
+        isSuccess: step === 'complete',
+        isError: step === 'error',
+        collectTxHash: flow.hashes.collect
+    };
+}
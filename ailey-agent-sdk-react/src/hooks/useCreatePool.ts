@@ -0,0 +1,275 @@
+import {useCallback, useEffect, useMemo, useState} from 'react';
+import {useAccount, useConfig} from 'wagmi';
+import {UNISWAP_V3_POSITION_MANAGER_ABI} from '../abi/uniswapV3.abi';
+import {FEE_TIERS} from '../constants/uniswap';
+import {parsePrice, priceToSqrtPriceX96} from '../utils/priceRange';
+import {type AddLiquidityParams, useAddLiquidity} from './useAddLiquidity';
+import {useDexDeployment} from './useDexDeployment';
+import {usePools} from './usePools';
+import {simulateAndWrite, useTransactionFlow} from './useTransactionFlow';
+import {AileyError, toAileyError} from '../utils/errors';
+
+/**
+ * Parameters for creating and initializing a Uniswap V3 pool
+ */
+export interface CreatePoolParams {
+    /** Token A contract address */
+    tokenAAddress: `0x${string}`;
+    /** Token B contract address */
+    tokenBAddress: `0x${string}`;
+    /** Pool fee tier in basis points (100, 500, 3000 or 10000) */
+    fee: number;
+    /** Starting price of token A in token B, human-readable (e.g., "0.0012" WBNB per ALE) */
+    initialPrice: string;
+    /** First position to open once the pool is initialized (skipped when omitted) */
+    addLiquidity?: Omit<AddLiquidityParams, 'tokenAAddress' | 'tokenBAddress' | 'fee'>;
+}
+
+/**
+ * State machine states for the create pool process
+ *
+ * Execution flow:
+ * 1. idle: Waiting for user action
+ * 2. checking-pool: Checking the pool does not exist yet
+ * 3. creating-pool: Creating and initializing the pool
+ * 4. adding-liquidity: Opening the first position through useAddLiquidity
+ * 5. complete: Process completed successfully
+ * 6. error: Error occurred
+ */
+export type CreatePoolStep =
+    'idle'
+    | 'checking-pool'
+    | 'creating-pool'
+    | 'adding-liquidity'
+    | 'complete'
+    | 'error';
+
+/**
+ * Hook for launching a new Uniswap V3 pool at a chosen starting price
+ *
+ * Full execution flow:
+ * 1. User calls callCreatePool() with the token pair, fee tier and starting price
+ * 2. Check no initialized pool exists for the pair and fee tier → Error if it does
+ * 3. Convert the starting price to sqrtPriceX96 with each token's decimals
+ * 4. Call positionManager.createAndInitializePoolIfNecessary() (also initializes a created but uninitialized pool)
+ * 5. Refetch the pool lookup, shared with the first position's useAddLiquidity, so it sees the new pool
+ * 6. Optionally start the useAddLiquidity flow for the first position
+ * 7. Handle success/failure and update state accordingly
+ */
+export function useCreatePool() {
+    const {deployment, chainId} = useDexDeployment();
+    const {address: userAddress} = useAccount();
+    const config = useConfig();
+    const positionManager = deployment?.positionManager;
+
+    // Steps around the create pool transaction, the flow reports the transaction itself
+    const [phase, setPhase] = useState<Exclude<CreatePoolStep, 'creating-pool'> | 'flow'>('idle');
+    const [error, setError] = useState<AileyError | null>(null);
+    const [currentParams, setCurrentParams] = useState<CreatePoolParams | null>(null);
+    const [sqrtPriceX96, setSqrtPriceX96] = useState<bigint | undefined>();
+
+    // Look up the pool for the requested fee tier
+    const feeTiers = useMemo(() => currentParams ? [currentParams.fee] : [], [currentParams]);
+    const {
+        tokenA,
+        tokenB,
+        pools,
+        isLoading: isPoolsLoading,
+        isPoolMissing,
+        error: poolsError,
+        refetch: refetchPools
+    } = usePools(currentParams?.tokenAAddress, currentParams?.tokenBAddress, feeTiers);
+
+    // First position flow
+    const addLiquidity = useAddLiquidity();
+    const {callAddLiquidity, resetAddLiquidity} = addLiquidity;
+
+    // Create pool transaction, pool lookups are refreshed before it counts as confirmed
+    const flow = useTransactionFlow<{
+        positionManager: `0x${string}`;
+        token0: `0x${string}`;
+        token1: `0x${string}`;
+        fee: number;
+        sqrtPriceX96: bigint;
+    }>([
+        {
+            id: 'create-pool',
+            type: 'create-pool',
+            params: state => ({token0: state.token0, token1: state.token1, fee: state.fee, sqrtPriceX96: state.sqrtPriceX96}),
+            write: state => simulateAndWrite(config, {
+                address: state.positionManager,
+                abi: UNISWAP_V3_POSITION_MANAGER_ABI,
+                chainId: chainId,
+                functionName: 'createAndInitializePoolIfNecessary',
+                args: [state.token0, state.token1, state.fee, state.sqrtPriceX96]
+            }),
+            // Same pair and fee tier as useAddLiquidity's lookup, so the first position sees the new pool
+            confirm: async () => {
+                await refetchPools();
+            }
+        }
+    ]);
+    const {start: startFlow, reset: resetFlow} = flow;
+
+    /**
+     * Main entry point - Start the create pool process
+     */
+    const callCreatePool = useCallback((params: CreatePoolParams) => {
+        // 1. Check wallet connection
+        if (!userAddress) {
+            setError(new AileyError('WALLET_NOT_CONNECTED', 'Please connect your wallet first'));
+            setPhase('error');
+            return;
+        }
+
+        // 2. Check the position manager is configured
+        if (!positionManager) {
+            setError(new AileyError('NOT_CONFIGURED', `NonfungiblePositionManager address is not configured for chain ${chainId}. Add positionManager to aileyConfig.dex.`));
+            setPhase('error');
+            return;
+        }
+
+        // 3. Validate the pair and fee tier
+        if (!params.tokenAAddress || !params.tokenBAddress ||
+            params.tokenAAddress.toLowerCase() === params.tokenBAddress.toLowerCase()) {
+            setError(new AileyError('INVALID_INPUT', 'Token addresses are not set'));
+            setPhase('error');
+            return;
+        }
+        if (!(FEE_TIERS as readonly number[]).includes(params.fee)) {
+            setError(new AileyError('INVALID_INPUT', `Unsupported fee tier ${params.fee}. Use one of ${FEE_TIERS.join(', ')}`));
+            setPhase('error');
+            return;
+        }
+
+        // 4. Start the process (the price is parsed once token decimals are loaded)
+        resetFlow();
+        resetAddLiquidity();
+        setCurrentParams(params);
+        setSqrtPriceX96(undefined);
+        setError(null);
+        setPhase('checking-pool');
+    }, [userAddress, positionManager, chainId, resetFlow, resetAddLiquidity]);
+
+    /**
+     * Reset state to initial values
+     */
+    const resetCreatePool = useCallback(() => {
+        setPhase('idle');
+        setError(null);
+        setCurrentParams(null);
+        setSqrtPriceX96(undefined);
+        resetFlow();
+        resetAddLiquidity();
+    }, [resetFlow, resetAddLiquidity]);
+
+    /**
+     * ==========================================
+     * State Machine Effects
+     * ==========================================
+     * 1. checking-pool: Verify the pool is missing, then create it
+     * 2. creating-pool: Run by useTransactionFlow, then add liquidity or complete
+     * 3. adding-liquidity: Follow the useAddLiquidity flow
+     * ==========================================
+     */
+
+    // Pool lookup complete -> create and initialize the pool
+    useEffect(() => {
+        if (phase !== 'checking-pool' || !currentParams || !positionManager || isPoolsLoading) return;
+
+        if (pools.length > 0) {
+            setError(new AileyError('POOL_EXISTS', `Pool already exists for the given tokens and fee tier (${currentParams.fee / 10000}%), add liquidity to it instead`));
+            setPhase('error');
+            return;
+        }
+        if (!isPoolMissing || !tokenA || !tokenB) return;
+
+        let initialSqrtPriceX96: bigint;
+        try {
+            initialSqrtPriceX96 = priceToSqrtPriceX96(parsePrice(tokenA, tokenB, currentParams.initialPrice));
+        } catch (e) {
+            setError(toAileyError(e, {code: 'INVALID_INPUT'}));
+            setPhase('error');
+            return;
+        }
+
+        // Pools are keyed by sorted token addresses
+        const [token0, token1] = tokenA.sortsBefore(tokenB) ? [tokenA, tokenB] : [tokenB, tokenA];
+
+        setSqrtPriceX96(initialSqrtPriceX96);
+        setPhase('flow');
+        startFlow({
+            positionManager,
+            token0: token0.address as `0x${string}`,
+            token1: token1.address as `0x${string}`,
+            fee: currentParams.fee,
+            sqrtPriceX96: initialSqrtPriceX96
+        });
+    }, [phase, currentParams, positionManager, isPoolsLoading, pools, isPoolMissing, tokenA, tokenB, startFlow]);
+
+    // Pool created -> open the first position
+    useEffect(() => {
+        if (!flow.isSuccess || phase !== 'flow' || !currentParams) return;
+
+        if (!currentParams.addLiquidity) {
+            setPhase('complete');
+            return;
+        }
+
+        setPhase('adding-liquidity');
+        callAddLiquidity({
+            ...currentParams.addLiquidity,
+            tokenAAddress: currentParams.tokenAAddress,
+            tokenBAddress: currentParams.tokenBAddress,
+            fee: currentParams.fee
+        });
+    }, [flow.isSuccess, phase, currentParams, callAddLiquidity]);
+
+    // Follow the add liquidity flow
+    useEffect(() => {
+        if (phase !== 'adding-liquidity') return;
+
+        if (addLiquidity.step === 'complete') {
+            setPhase('complete');
+        } else if (addLiquidity.step === 'error') {
+            const addError = addLiquidity.error;
+            setError(addError
+                ? new AileyError(addError.code, `Pool created, but adding liquidity failed: ${addError.message}`, {cause: addError})
+                : new AileyError('UNKNOWN', 'Pool created, but adding liquidity failed'));
+            setPhase('error');
+        }
+    }, [phase, addLiquidity.step, addLiquidity.error]);
+
+    // Pool lookup errors
+    useEffect(() => {
+        if (phase === 'checking-pool' && poolsError && !isPoolMissing) {
+            setError(poolsError);
+            setPhase('error');
+        }
+    }, [phase, poolsError, isPoolMissing]);
+
+    // Map flow progress to create pool steps
+    let step: CreatePoolStep;
+    if (phase !== 'flow') step = phase;
+    else if (flow.status === 'error') step = 'error';
+    else if (flow.status === 'cancelled') step = 'idle';
+    else step = 'creating-pool';
+
+    return {
+        callCreatePool,
+        resetCreatePool,
+        /** Send the create pool transaction again after a failure */
+        retry: flow.retry,
+        step,
+        stepStatuses: flow.stepStatuses,
+        error: phase === 'flow' ? flow.error : error,
+        isPending: step === 'checking-pool' || step === 'creating-pool' || addLiquidity.isPending,
+        isSuccess: step === 'complete',
+        isError: step === 'error',
+        createPoolTxHash: flow.hashes['create-pool'],
+        addLiquidityTxHash: addLiquidity.addLiquidityTxHash,
+        sqrtPriceX96,
+        /** State of the first position flow */
+        addLiquidity
+    };
+}
@@ -0,0 +1,325 @@
+import {useCallback, useEffect, useMemo, useState} from 'react';
+import {useAccount, useConfig} from 'wagmi';
+import {maxUint128} from 'viem';
+import {Position} from "@uniswap/v3-sdk";
+import {UNISWAP_V3_POSITION_MANAGER_ABI} from '../abi/uniswapV3.abi';
+import {useAgentApi} from '../context/AgentApiContext';
+import {useDexDeployment} from './useDexDeployment';
+import {usePositionDetails} from './usePositions';
+import {simulateAndWrite, type TransactionStep, useTransactionFlow} from './useTransactionFlow';
+import {usePoolVolatility} from './usePoolVolatility';
+import {
+    deadlineFromNow,
+    minimumAmount,
+    resolveSlippageBps,
+    resolveTransactionSettings,
+    type ResolvedTransactionSettings,
+    type TransactionSettings
+} from '../utils/transactionSettings';
+import {AileyError, PoolNotFoundError, toAileyError} from '../utils/errors';
+
+/**
+ * Parameters for removing liquidity from a position
+ *
+ * Either liquidityPercent or liquidity must be set. slippageBps and deadlineMinutes override
+ * aileyConfig.transactionSettings for this removal.
+ */
+export interface DecreaseLiquidityParams extends TransactionSettings {
+    /** Position NFT id */
+    tokenId: bigint;
+    /** Share of the position's liquidity to remove, in percent (1-100) */
+    liquidityPercent?: number;
+    /** Exact liquidity to remove (takes precedence over liquidityPercent) */
+    liquidity?: bigint;
+    /** Collect the withdrawn tokens and fees to the wallet after removing (default: true) */
+    collect?: boolean;
+}
+
+/**
+ * State machine states for the decrease liquidity process
+ *
+ * Execution flow:
+ * 1. idle: Waiting for user action
+ * 2. loading-position: Loading position and pool state
+ * 3. decreasing-liquidity: Removing liquidity from the position
+ * 4. collecting: Transferring withdrawn tokens and fees to the wallet
+ * 5. complete: Process completed successfully
+ * 6. error: Error occurred
+ */
+export type DecreaseLiquidityStep =
+    'idle'
+    | 'loading-position'
+    | 'decreasing-liquidity'
+    | 'collecting'
+    | 'complete'
+    | 'error';
+
+/**
+ * Removal details fixed when the transactions start, shared by the transaction steps
+ */
+interface DecreaseLiquidityFlowState {
+    account: `0x${string}`;
+    positionManager: `0x${string}`;
+    tokenId: bigint;
+    liquidity: bigint;
+    amount0Min: bigint;
+    amount1Min: bigint;
+    deadlineMinutes: number;
+    collect: boolean;
+}
+
+// Decrease liquidity step of each transaction step
+const FLOW_STEPS: Record<string, DecreaseLiquidityStep> = {
+    'decrease-liquidity': 'decreasing-liquidity',
+    'collect': 'collecting'
+};
+
+/**
+ * Hook for removing liquidity from a Uniswap V3 position owned by the connected wallet
+ *
+ * Full execution flow:
+ * 1. User calls callDecreaseLiquidity() with a position id and the share of liquidity to remove
+ * 2. Load the position and its pool state
+ * 3. Calculate the token amounts released at the current price, with slippage protection
+ *    (per-call settings, then aileyConfig.transactionSettings, then 0.5% / 10 minutes deadline)
+ * 4. Call positionManager.decreaseLiquidity() (tokens are credited to the position, not transferred)
+ * 5. Call positionManager.collect() to transfer the tokens and fees to the wallet (optional)
+ * 6. Handle success/failure and update state accordingly
+ *
+ * Steps 4-5 run on useTransactionFlow, retry() resumes from the failed transaction.
+ */
+export function useDecreaseLiquidity() {
+    const {deployment, chainId} = useDexDeployment();
+    const {transactionSettings} = useAgentApi();
+    const {address: userAddress} = useAccount();
+    const config = useConfig();
+    const positionManager = deployment?.positionManager;
+
+    // Steps before the transactions start, the flow reports the rest
+    const [phase, setPhase] = useState<'idle' | 'loading-position' | 'flow' | 'error'>('idle');
+    const [error, setError] = useState<AileyError | null>(null);
+    const [currentParams, setCurrentParams] = useState<DecreaseLiquidityParams | null>(null);
+    const [settings, setSettings] = useState<ResolvedTransactionSettings | null>(null);
+
+    // Load position and pool state
+    const tokenIds = useMemo(() => currentParams ? [currentParams.tokenId] : [], [currentParams]);
+    const {positions, isResolved: isPositionResolved, error: positionError} = usePositionDetails(tokenIds, userAddress);
+    const positionInfo = positions[0];
+
+    // Recent pool movement for 'auto' slippage
+    const {volatilityBps, isLoading: isVolatilityLoading} = usePoolVolatility(
+        positionInfo?.poolAddress ? [positionInfo.poolAddress] : undefined,
+        settings?.slippageBps === 'auto'
+    );
+
+    // Liquidity to remove
+    const liquidityToRemove = useMemo(() => {
+        if (!currentParams || !positionInfo) return undefined;
+        if (currentParams.liquidity !== undefined) return currentParams.liquidity;
+
+        const percent = BigInt(Math.round((currentParams.liquidityPercent ?? 0) * 100));
+        return positionInfo.liquidity * percent / 10_000n;
+    }, [currentParams, positionInfo]);
+
+    // Calculate released amounts at the current pool price
+    const expectedAmounts = useMemo(() => {
+        if (!positionInfo?.pool || liquidityToRemove === undefined) return undefined;
+
+        const released = new Position({
+            pool: positionInfo.pool,
+            liquidity: liquidityToRemove.toString(),
+            tickLower: positionInfo.tickLower,
+            tickUpper: positionInfo.tickUpper
+        });
+
+        return {
+            amount0: BigInt(released.amount0.quotient.toString()),
+            amount1: BigInt(released.amount1.quotient.toString())
+        };
+    }, [positionInfo, liquidityToRemove]);
+
+    // Transaction steps: decrease liquidity -> collect (optional)
+    const steps: TransactionStep<DecreaseLiquidityFlowState>[] = [
+        {
+            // Tokens are credited to the position, not transferred
+            id: 'decrease-liquidity',
+            type: 'decrease-liquidity',
+            params: state => ({
+                tokenId: state.tokenId,
+                liquidity: state.liquidity,
+                amount0Min: state.amount0Min,
+                amount1Min: state.amount1Min
+            }),
+            write: state => simulateAndWrite(config, {
+                address: state.positionManager,
+                abi: UNISWAP_V3_POSITION_MANAGER_ABI,
+                chainId: chainId,
+                functionName: 'decreaseLiquidity',
+                args: [{
+                    tokenId: state.tokenId,
+                    liquidity: state.liquidity,
+                    amount0Min: state.amount0Min,
+                    amount1Min: state.amount1Min,
+                    deadline: deadlineFromNow(state.deadlineMinutes)
+                }]
+            })
+        },
+        {
+            // Transfer withdrawn tokens and fees to the wallet
+            id: 'collect',
+            type: 'collect-fees',
+            params: state => ({tokenId: state.tokenId, recipient: state.account}),
+            check: state => state.collect,
+            write: state => simulateAndWrite(config, {
+                address: state.positionManager,
+                abi: UNISWAP_V3_POSITION_MANAGER_ABI,
+                chainId: chainId,
+                functionName: 'collect',
+                args: [{
+                    tokenId: state.tokenId,
+                    recipient: state.account,
+                    amount0Max: maxUint128,
+                    amount1Max: maxUint128
+                }]
+            })
+        }
+    ];
+
+    const flow = useTransactionFlow(steps);
+    const {start: startFlow, reset: resetFlow} = flow;
+
+    /**
+     * Main entry point - Start the decrease liquidity process
+     */
+    const callDecreaseLiquidity = useCallback((params: DecreaseLiquidityParams) => {
+        // 1. Check wallet connection
+        if (!userAddress) {
+            setError(new AileyError('WALLET_NOT_CONNECTED', 'Please connect your wallet first'));
+            setPhase('error');
+            return;
+        }
+
+        // 2. Check the position manager is configured
+        if (!positionManager) {
+            setError(new AileyError('NOT_CONFIGURED', `NonfungiblePositionManager address is not configured for chain ${chainId}. Add positionManager to aileyConfig.dex.`));
+            setPhase('error');
+            return;
+        }
+
+        // 3. Validate the amount to remove
+        const {liquidity, liquidityPercent} = params;
+        const isValidLiquidity = liquidity !== undefined
+            ? liquidity > 0n
+            : liquidityPercent !== undefined && liquidityPercent > 0 && liquidityPercent <= 100;
+        if (!isValidLiquidity) {
+            setError(new AileyError('INVALID_INPUT', 'Please enter a valid liquidity amount'));
+            setPhase('error');
+            return;
+        }
+
+        // 4. Resolve per-call slippage and deadline over the provider defaults
+        let resolvedSettings: ResolvedTransactionSettings;
+        try {
+            resolvedSettings = resolveTransactionSettings(params, transactionSettings);
+        } catch (e) {
+            setError(toAileyError(e));
+            setPhase('error');
+            return;
+        }
+
+        // 5. Start the process
+        resetFlow();
+        setCurrentParams(params);
+        setSettings(resolvedSettings);
+        setError(null);
+        setPhase('loading-position');
+    }, [userAddress, positionManager, chainId, transactionSettings, resetFlow]);
+
+    /**
+     * Reset state to initial values
+     */
+    const resetDecreaseLiquidity = useCallback(() => {
+        setPhase('idle');
+        setError(null);
+        setCurrentParams(null);
+        setSettings(null);
+        resetFlow();
+    }, [resetFlow]);
+
+    // Position loaded -> run the transaction steps
+    useEffect(() => {
+        if (phase !== 'loading-position' || !userAddress || !positionManager || !currentParams || !settings ||
+            !positionInfo || liquidityToRemove === undefined || !expectedAmounts || isVolatilityLoading) return;
+
+        if (liquidityToRemove === 0n || liquidityToRemove > positionInfo.liquidity) {
+            setError(new AileyError('INVALID_INPUT', 'Liquidity to remove exceeds the position liquidity'));
+            setPhase('error');
+            return;
+        }
+
+        // Minimum amounts for slippage protection
+        const slippageBps = resolveSlippageBps(settings.slippageBps, {volatilityBps});
+
+        setPhase('flow');
+        startFlow({
+            account: userAddress,
+            positionManager,
+            tokenId: currentParams.tokenId,
+            liquidity: liquidityToRemove,
+            amount0Min: minimumAmount(expectedAmounts.amount0, slippageBps),
+            amount1Min: minimumAmount(expectedAmounts.amount1, slippageBps),
+            deadlineMinutes: settings.deadlineMinutes,
+            collect: currentParams.collect !== false
+        });
+    }, [phase, userAddress, positionManager, currentParams, settings, positionInfo, liquidityToRemove, expectedAmounts,
+        isVolatilityLoading, volatilityBps, startFlow]);
+
+    // Position lookup errors
+    useEffect(() => {
+        if (phase !== 'loading-position') return;
+
+        if (positionError) {
+            setError(positionError);
+            setPhase('error');
+            return;
+        }
+
+        // Every lookup completed without finding the position or its pool, nothing left to wait for
+        if (!isPositionResolved) return;
+        if (!positionInfo) {
+            setError(new AileyError('INVALID_INPUT', `Position ${currentParams?.tokenId} not found`));
+            setPhase('error');
+        } else if (!positionInfo.pool) {
+            setError(new PoolNotFoundError(`Pool of position ${positionInfo.tokenId} not found`));
+            setPhase('error');
+        }
+    }, [phase, positionError, isPositionResolved, positionInfo, currentParams]);
+
+    // Map flow progress to decrease liquidity steps
+    let step: DecreaseLiquidityStep;
+    if (phase !== 'flow') step = phase;
+    else if (flow.status === 'complete') step = 'complete';
+    else if (flow.status === 'error') step = 'error';
+    else if (flow.status === 'cancelled') step = 'idle';
+    else step = FLOW_STEPS[flow.currentStepId ?? ''] ?? 'decreasing-liquidity';
+
+    return {
+        callDecreaseLiquidity,
+        resetDecreaseLiquidity,
+        /** Resume a failed removal from the failed transaction */
+        retry: flow.retry,
+        /** Stop before the next transaction (a transaction already sent may still be mined) */
+        cancel: flow.cancel,
+        step,
+        stepStatuses: flow.stepStatuses,
+        error: phase === 'flow' ? flow.error : error,
+        isPending: phase === 'loading-position' || flow.isPending,
+        isSuccess: step === 'complete',
+        isError: step === 'error',
+        decreaseTxHash: flow.hashes['decrease-liquidity'],
+        collectTxHash: flow.hashes.collect,
+        position: positionInfo,
+        liquidityToRemove,
+        expectedAmounts
+    };
+}
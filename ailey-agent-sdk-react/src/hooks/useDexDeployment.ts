@@ -0,0 +1,35 @@
+import {useMemo} from 'react';
+import {type DexDeployment, useAgentApi} from '../context/AgentApiContext';
+import {AileyError} from '../utils/errors';
+
+/**
+ * Result object returned by useDexDeployment hook
+ */
+export interface DexDeploymentResult {
+    /** Uniswap V3 deployment for the active chain */
+    deployment?: DexDeployment;
+    /** Active chain id the deployment was resolved for */
+    chainId: number;
+    /** NOT_CONFIGURED error if the active chain has no registry entry */
+    error: AileyError | null;
+}
+
+/**
+ * Hook to resolve the Uniswap V3 deployment for the active chain
+ *
+ * Reads the per-chain registry passed to AileyProvider as aileyConfig.dex and
+ * follows the chain the wallet (or wagmi config) is currently on, like useAgentApi.
+ */
+export function useDexDeployment(): DexDeploymentResult {
+    const {dex, chainId} = useAgentApi();
+
+    const deployment = dex?.[chainId];
+
+    return useMemo(() => ({
+        deployment,
+        chainId,
+        error: deployment
+            ? null
+            : new AileyError('NOT_CONFIGURED', `No Uniswap V3 deployment is configured for chain ${chainId}. Add it to aileyConfig.dex.`)
+    }), [deployment, chainId]);
+}
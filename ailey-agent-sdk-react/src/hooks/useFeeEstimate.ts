@@ -0,0 +1,223 @@
+import {useEffect, useMemo, useRef, useState} from 'react';
+import {useAccount, usePublicClient} from 'wagmi';
+import type {Abi} from 'viem';
+import {CurrencyAmount, type Token} from "@uniswap/sdk-core";
+import {useDexDeployment} from './useDexDeployment';
+import {usePoolData} from './usePoolData';
+import {type AileyError, toAileyError} from '../utils/errors';
+
+/**
+ * Gas used by a transaction that cannot be estimated before the flow runs,
+ * e.g. an agent call that needs an approval sent first
+ */
+export const GAS_FALLBACKS = {
+    approve: 60_000n,
+    wrap: 50_000n,
+    unwrap: 50_000n,
+    swap: 250_000n,
+    swapPerExtraHop: 100_000n,
+    addLiquidity: 500_000n,
+    agentCall: 300_000n,
+    permit: 80_000n                 // Extra gas of a permit redeemed inside an agent call
+} as const;
+
+/**
+ * Transaction a flow plans to send
+ */
+export interface PlannedTransaction {
+    /** Step id of the transaction (e.g. 'approve', 'swap') */
+    id: string;
+    /** Contract call to estimate, omit when it cannot be estimated yet */
+    call?: {
+        address: `0x${string}`;
+        abi: Abi;
+        functionName: string;
+        args?: readonly unknown[];
+        value?: bigint;
+    };
+    /** Gas used when the call is omitted or its estimation fails */
+    fallbackGas: bigint;
+}
+
+/**
+ * Gas estimate of a single planned transaction
+ */
+export interface TransactionGasEstimate {
+    id: string;
+    /** Estimated gas units */
+    gas: bigint;
+    /** Whether gas is the fallback rather than an eth_estimateGas result */
+    isFallback: boolean;
+}
+
+/**
+ * Current network fee data, in wei per gas
+ */
+export interface FeeData {
+    /** Legacy gas price */
+    gasPrice: bigint;
+    /** EIP-1559 max fee per gas (undefined on chains without EIP-1559) */
+    maxFeePerGas?: bigint;
+    /** EIP-1559 max priority fee per gas (undefined on chains without EIP-1559) */
+    maxPriorityFeePerGas?: bigint;
+}
+
+/**
+ * Cost of every transaction a flow plans to send
+ */
+export interface FeeEstimate {
+    /** Gas estimate of every planned transaction, in execution order */
+    transactions: TransactionGasEstimate[];
+    /** Total gas units of the planned transactions */
+    gas: bigint;
+    feeData: FeeData;
+    /** Expected total fee in native wei (gas × gasPrice) */
+    totalFee: bigint;
+    /** Upper bound of the total fee in native wei (gas × maxFeePerGas, gasPrice without EIP-1559) */
+    maxTotalFee: bigint;
+    /** Stablecoin the fees are quoted in (aileyConfig.dex stablecoin) */
+    stablecoin?: Token;
+    /** Expected total fee in the stablecoin (in its smallest unit), quoted through the wrapped-native pool */
+    totalFeeInStablecoin?: bigint;
+    /** Upper bound of the total fee in the stablecoin (in its smallest unit) */
+    maxTotalFeeInStablecoin?: bigint;
+}
+
+/**
+ * Result object returned by useFeeEstimate hook
+ */
+export interface FeeEstimateResult {
+    feeEstimate?: FeeEstimate;
+    isLoading: boolean;
+    /** READ_FAILED if the fee data could not be fetched */
+    error: AileyError | null;
+}
+
+// Identity of the planned transactions, so re-created arrays with the same calls do not re-estimate
+function plannedTransactionsKey(transactions: readonly PlannedTransaction[]): string {
+    return JSON.stringify(
+        transactions.map(({id, call, fallbackGas}) =>
+            [id, call?.address, call?.functionName, call?.args, call?.value, fallbackGas]),
+        (_, value) => typeof value === 'bigint' ? value.toString() : value
+    );
+}
+
+/**
+ * Hook to estimate the gas and network fee of the transactions a flow plans to send
+ *
+ * Used by useCallSwap and useAddLiquidity to preview their cost, usable on its own for custom flows.
+ *
+ * Execution flow:
+ * 1. Estimate every planned call from the connected wallet (eth_estimateGas),
+ *    calls that are omitted or fail to estimate use their fallback gas
+ * 2. Fetch the legacy gas price and, where supported, EIP-1559 fees
+ * 3. Total fee = gas × gasPrice (expected) and gas × maxFeePerGas (upper bound)
+ * 4. Quote both totals in the configured stablecoin through its deepest wrapped-native pool
+ *
+ * @param transactions Transactions to estimate, in execution order (undefined to skip)
+ */
+export function useFeeEstimate(transactions?: readonly PlannedTransaction[]): FeeEstimateResult {
+    const publicClient = usePublicClient();
+    const {address: userAddress} = useAccount();
+    const {deployment} = useDexDeployment();
+
+    const [estimate, setEstimate] = useState<Omit<FeeEstimate, 'stablecoin' | 'totalFeeInStablecoin' | 'maxTotalFeeInStablecoin'>>();
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<AileyError | null>(null);
+
+    // Latest transactions, the effect re-runs only when their key changes
+    const transactionsRef = useRef(transactions);
+    transactionsRef.current = transactions;
+    const key = transactions ? plannedTransactionsKey(transactions) : undefined;
+
+    useEffect(() => {
+        let cancelled = false;
+
+        const fetchEstimate = async () => {
+            const planned = transactionsRef.current;
+            if (!publicClient || !userAddress || !planned || planned.length === 0) {
+                setEstimate(undefined);
+                setError(null);
+                setIsLoading(false);
+                return;
+            }
+
+            setIsLoading(true);
+            try {
+                // 1. Gas of every planned transaction
+                const gasEstimates = await Promise.all(planned.map(async ({id, call, fallbackGas}) => {
+                    if (!call) return {id, gas: fallbackGas, isFallback: true};
+                    try {
+                        const gas = await publicClient.estimateContractGas({...call, account: userAddress});
+                        return {id, gas, isFallback: false};
+                    } catch {
+                        // Would revert with the current chain state, simulation reports it when the flow runs
+                        return {id, gas: fallbackGas, isFallback: true};
+                    }
+                }));
+
+                // 2. Fee data
+                const gasPrice = await publicClient.getGasPrice();
+                let maxFeePerGas: bigint | undefined;
+                let maxPriorityFeePerGas: bigint | undefined;
+                try {
+                    ({maxFeePerGas, maxPriorityFeePerGas} = await publicClient.estimateFeesPerGas());
+                } catch {
+                    // Chain without EIP-1559
+                }
+
+                // 3. Totals
+                const gas = gasEstimates.reduce((total, {gas}) => total + gas, 0n);
+
+                if (cancelled) return;
+                setEstimate({
+                    transactions: gasEstimates,
+                    gas,
+                    feeData: {gasPrice, maxFeePerGas, maxPriorityFeePerGas},
+                    totalFee: gas * gasPrice,
+                    maxTotalFee: gas * (maxFeePerGas ?? gasPrice)
+                });
+                setError(null);
+            } catch (e) {
+                if (cancelled) return;
+                console.error("Failed to estimate fees:", e);
+                setEstimate(undefined);
+                setError(toAileyError(e, {code: 'READ_FAILED', message: 'Failed to fetch network fee data'}));
+            } finally {
+                if (!cancelled) setIsLoading(false);
+            }
+        };
+
+        fetchEstimate();
+        return () => {
+            cancelled = true;
+        };
+    }, [publicClient, userAddress, key]);
+
+    // 4. Stablecoin quote through the wrapped-native pool
+    const wrappedNative = deployment?.wrappedNative;
+    const stablecoinAddress = deployment?.stablecoin;
+    const {tokenA: wrappedToken, tokenB: stablecoin, pool} = usePoolData(
+        estimate && wrappedNative && stablecoinAddress
+            ? {tokenAAddress: wrappedNative, tokenBAddress: stablecoinAddress}
+            : undefined
+    );
+
+    const feeEstimate = useMemo((): FeeEstimate | undefined => {
+        if (!estimate) return undefined;
+        if (!pool || !wrappedToken || !stablecoin) return estimate;
+
+        const price = pool.priceOf(wrappedToken);
+        const quote = (amount: bigint) =>
+            BigInt(price.quote(CurrencyAmount.fromRawAmount(wrappedToken, amount.toString())).quotient.toString());
+
+        return {
+            ...estimate,
+            stablecoin,
+            totalFeeInStablecoin: quote(estimate.totalFee),
+            maxTotalFeeInStablecoin: quote(estimate.maxTotalFee)
+        };
+    }, [estimate, pool, wrappedToken, stablecoin]);
+
+    return {feeEstimate, isLoading, error};
+}
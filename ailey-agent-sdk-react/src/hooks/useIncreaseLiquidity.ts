@@ -0,0 +1,332 @@
+import {useCallback, useEffect, useMemo, useState} from 'react';
+import {useAccount, useConfig} from 'wagmi';
+import {Position} from "@uniswap/v3-sdk";
+import {UNISWAP_V3_POSITION_MANAGER_ABI} from '../abi/uniswapV3.abi';
+import {type AmountInput, isPositiveAmount, toRawAmount} from '../utils/amount';
+import {useAgentApi} from '../context/AgentApiContext';
+import {useDexDeployment} from './useDexDeployment';
+import {usePositionDetails} from './usePositions';
+import {approvalStep, simulateAndWrite, type TransactionStep, useTransactionFlow} from './useTransactionFlow';
+import {usePoolVolatility} from './usePoolVolatility';
+import {
+    deadlineFromNow,
+    minimumAmount,
+    resolveSlippageBps,
+    resolveTransactionSettings,
+    type ResolvedTransactionSettings,
+    type TransactionSettings
+} from '../utils/transactionSettings';
+import {AileyError, PoolNotFoundError, toAileyError} from '../utils/errors';
+
+/**
+ * Parameters for adding liquidity to an existing position
+ *
+ * slippageBps and deadlineMinutes override aileyConfig.transactionSettings for this increase.
+ */
+export interface IncreaseLiquidityParams extends TransactionSettings {
+    /** Position NFT id */
+    tokenId: bigint;
+    /** Token0 amount, human-readable string in token0 decimals or raw bigint */
+    amount0: AmountInput;
+    /** Token1 amount, human-readable string in token1 decimals or raw bigint */
+    amount1: AmountInput;
+}
+
+/**
+ * State machine states for the increase liquidity process
+ *
+ * Execution flow:
+ * 1. idle: Waiting for user action
+ * 2. loading-position: Loading position and pool state
+ * 3. checking-approvals: Checking token approval status
+ * 4. approving-token0: Approving token0
+ * 5. approving-token1: Approving token1
+ * 6. increasing-liquidity: Adding liquidity to the position
+ * 7. complete: Process completed successfully
+ * 8. error: Error occurred
+ */
+export type IncreaseLiquidityStep =
+    'idle'
+    | 'loading-position'
+    | 'checking-approvals'
+    | 'approving-token0'
+    | 'approving-token1'
+    | 'increasing-liquidity'
+    | 'complete'
+    | 'error';
+
+/**
+ * Amounts fixed when approvals start, shared by the transaction steps
+ */
+interface IncreaseLiquidityFlowState {
+    account: `0x${string}`;
+    positionManager: `0x${string}`;
+    tokenId: bigint;
+    token0: `0x${string}`;
+    token1: `0x${string}`;
+    amount0: bigint;
+    amount1: bigint;
+    amount0Min: bigint;
+    amount1Min: bigint;
+    deadlineMinutes: number;
+}
+
+// Increase liquidity step of each transaction step
+const FLOW_STEPS: Record<string, IncreaseLiquidityStep> = {
+    'approve-token0': 'approving-token0',
+    'approve-token1': 'approving-token1',
+    'increase-liquidity': 'increasing-liquidity'
+};
+
+/**
+ * Hook for adding liquidity to an existing Uniswap V3 position owned by the connected wallet
+ *
+ * Full execution flow:
+ * 1. User calls callIncreaseLiquidity() with a position id and token amounts
+ * 2. Load the position and its pool state
+ * 3. Calculate exact token ratio using Position.fromAmounts based on current price and the position's range
+ * 4. Check token approvals for the NonfungiblePositionManager → Execute approval transactions if needed
+ * 5. Call positionManager.increaseLiquidity() with slippage protection and a deadline
+ *    (per-call settings, then aileyConfig.transactionSettings, then 0.5% / 10 minutes)
+ * 6. Handle success/failure and update state accordingly
+ *
+ * Steps 4-5 run on useTransactionFlow, retry() resumes from the failed transaction.
+ */
+export function useIncreaseLiquidity() {
+    const {deployment, chainId} = useDexDeployment();
+    const {transactionSettings} = useAgentApi();
+    const {address: userAddress} = useAccount();
+    const config = useConfig();
+    const positionManager = deployment?.positionManager;
+
+    // Steps before the transactions start, the flow reports the rest
+    const [phase, setPhase] = useState<'idle' | 'loading-position' | 'flow' | 'error'>('idle');
+    const [error, setError] = useState<AileyError | null>(null);
+    const [currentParams, setCurrentParams] = useState<IncreaseLiquidityParams | null>(null);
+    const [settings, setSettings] = useState<ResolvedTransactionSettings | null>(null);
+
+    // Load position and pool state
+    const tokenIds = useMemo(() => currentParams ? [currentParams.tokenId] : [], [currentParams]);
+    const {positions, isResolved: isPositionResolved, error: positionError} = usePositionDetails(tokenIds, userAddress);
+    const positionInfo = positions[0];
+
+    // Recent pool movement for 'auto' slippage
+    const {volatilityBps, isLoading: isVolatilityLoading} = usePoolVolatility(
+        positionInfo?.poolAddress ? [positionInfo.poolAddress] : undefined,
+        settings?.slippageBps === 'auto'
+    );
+
+    // Calculate exact amounts using Position.fromAmounts based on current pool price
+    const {calculatedAmounts, amountError} = useMemo(() => {
+        if (!currentParams || !positionInfo?.pool) return {};
+
+        try {
+            const added = Position.fromAmounts({
+                pool: positionInfo.pool,
+                tickLower: positionInfo.tickLower,
+                tickUpper: positionInfo.tickUpper,
+                amount0: toRawAmount(currentParams.amount0, positionInfo.token0.decimals).toString(),
+                amount1: toRawAmount(currentParams.amount1, positionInfo.token1.decimals).toString(),
+                useFullPrecision: true
+            });
+            const {amount0, amount1} = added.mintAmounts;
+
+            return {
+                calculatedAmounts: {
+                    amount0: BigInt(amount0.toString()),
+                    amount1: BigInt(amount1.toString()),
+                    liquidity: BigInt(added.liquidity.toString())
+                }
+            };
+        } catch (e) {
+            return {amountError: new AileyError('INVALID_INPUT', 'Invalid amounts for the token decimals: ' + String(e), {cause: e})};
+        }
+    }, [currentParams, positionInfo]);
+
+    // Transaction steps: approve token0 (if needed) -> approve token1 (if needed) -> increase liquidity
+    const steps: TransactionStep<IncreaseLiquidityFlowState>[] = [
+        approvalStep<IncreaseLiquidityFlowState>('approve-token0', config, state => ({
+            token: state.token0,
+            owner: state.account,
+            spender: state.positionManager,
+            amount: state.amount0,
+            chainId: chainId
+        })),
+        approvalStep<IncreaseLiquidityFlowState>('approve-token1', config, state => ({
+            token: state.token1,
+            owner: state.account,
+            spender: state.positionManager,
+            amount: state.amount1,
+            chainId: chainId
+        })),
+        {
+            id: 'increase-liquidity',
+            type: 'increase-liquidity',
+            params: state => ({
+                tokenId: state.tokenId,
+                token0: state.token0,
+                token1: state.token1,
+                amount0: state.amount0,
+                amount1: state.amount1,
+                amount0Min: state.amount0Min,
+                amount1Min: state.amount1Min
+            }),
+            write: state => simulateAndWrite(config, {
+                address: state.positionManager,
+                abi: UNISWAP_V3_POSITION_MANAGER_ABI,
+                chainId: chainId,
+                functionName: 'increaseLiquidity',
+                args: [{
+                    tokenId: state.tokenId,
+                    amount0Desired: state.amount0,
+                    amount1Desired: state.amount1,
+                    amount0Min: state.amount0Min,
+                    amount1Min: state.amount1Min,
+                    deadline: deadlineFromNow(state.deadlineMinutes)
+                }]
+            })
+        }
+    ];
+
+    const flow = useTransactionFlow(steps);
+    const {start: startFlow, reset: resetFlow} = flow;
+
+    /**
+     * Main entry point - Start the increase liquidity process
+     */
+    const callIncreaseLiquidity = useCallback((params: IncreaseLiquidityParams) => {
+        // 1. Check wallet connection
+        if (!userAddress) {
+            setError(new AileyError('WALLET_NOT_CONNECTED', 'Please connect your wallet first'));
+            setPhase('error');
+            return;
+        }
+
+        // 2. Check the position manager is configured
+        if (!positionManager) {
+            setError(new AileyError('NOT_CONFIGURED', `NonfungiblePositionManager address is not configured for chain ${chainId}. Add positionManager to aileyConfig.dex.`));
+            setPhase('error');
+            return;
+        }
+
+        // 3. Validate input amounts (one side may be zero for out-of-range positions)
+        if (!isPositiveAmount(params.amount0) && !isPositiveAmount(params.amount1)) {
+            setError(new AileyError('INVALID_INPUT', 'Please enter valid amounts'));
+            setPhase('error');
+            return;
+        }
+
+        // 4. Resolve per-call slippage and deadline over the provider defaults
+        let resolvedSettings: ResolvedTransactionSettings;
+        try {
+            resolvedSettings = resolveTransactionSettings(params, transactionSettings);
+        } catch (e) {
+            setError(toAileyError(e));
+            setPhase('error');
+            return;
+        }
+
+        // 5. Start the process
+        resetFlow();
+        setCurrentParams(params);
+        setSettings(resolvedSettings);
+        setError(null);
+        setPhase('loading-position');
+    }, [userAddress, positionManager, chainId, transactionSettings, resetFlow]);
+
+    /**
+     * Reset state to initial values
+     */
+    const resetIncreaseLiquidity = useCallback(() => {
+        setPhase('idle');
+        setError(null);
+        setCurrentParams(null);
+        setSettings(null);
+        resetFlow();
+    }, [resetFlow]);
+
+    // Position loaded -> run the transaction steps
+    useEffect(() => {
+        if (phase !== 'loading-position' || !userAddress || !positionManager || !currentParams || !settings ||
+            !positionInfo || isVolatilityLoading) return;
+
+        if (amountError) {
+            setError(amountError);
+            setPhase('error');
+            return;
+        }
+        if (!calculatedAmounts) return;
+
+        if (calculatedAmounts.liquidity === 0n) {
+            setError(new AileyError('INVALID_INPUT', 'Amounts are too small to add liquidity at the current price'));
+            setPhase('error');
+            return;
+        }
+
+        // Minimum amounts for slippage protection
+        const slippageBps = resolveSlippageBps(settings.slippageBps, {volatilityBps});
+
+        setPhase('flow');
+        startFlow({
+            account: userAddress,
+            positionManager,
+            tokenId: currentParams.tokenId,
+            token0: positionInfo.token0.address as `0x${string}`,
+            token1: positionInfo.token1.address as `0x${string}`,
+            amount0: calculatedAmounts.amount0,
+            amount1: calculatedAmounts.amount1,
+            amount0Min: minimumAmount(calculatedAmounts.amount0, slippageBps),
+            amount1Min: minimumAmount(calculatedAmounts.amount1, slippageBps),
+            deadlineMinutes: settings.deadlineMinutes
+        });
+    }, [phase, userAddress, positionManager, currentParams, settings, positionInfo, isVolatilityLoading, volatilityBps,
+        amountError, calculatedAmounts, startFlow]);
+
+    // Position lookup errors before the position is found
+    useEffect(() => {
+        if (phase !== 'loading-position') return;
+
+        if (positionError) {
+            setError(positionError);
+            setPhase('error');
+            return;
+        }
+
+        // Every lookup completed without finding the position or its pool, nothing left to wait for
+        if (!isPositionResolved) return;
+        if (!positionInfo) {
+            setError(new AileyError('INVALID_INPUT', `Position ${currentParams?.tokenId} not found`));
+            setPhase('error');
+        } else if (!positionInfo.pool) {
+            setError(new PoolNotFoundError(`Pool of position ${positionInfo.tokenId} not found`));
+            setPhase('error');
+        }
+    }, [phase, positionError, isPositionResolved, positionInfo, currentParams]);
+
+    // Map flow progress to increase liquidity steps
+    let step: IncreaseLiquidityStep;
+    if (phase !== 'flow') step = phase;
+    else if (flow.status === 'complete') step = 'complete';
+    else if (flow.status === 'error') step = 'error';
+    else if (flow.status === 'cancelled') step = 'idle';
+    else if (flow.stepStatuses[flow.currentStepId ?? ''] === 'checking') step = 'checking-approvals';
+    else step = FLOW_STEPS[flow.currentStepId ?? ''] ?? 'checking-approvals';
+
+    return {
+        callIncreaseLiquidity,
+        resetIncreaseLiquidity,
+        /** Resume a failed increase from the failed transaction */
+        retry: flow.retry,
+        /** Stop before the next transaction (a transaction already sent may still be mined) */
+        cancel: flow.cancel,
+        step,
+        stepStatuses: flow.stepStatuses,
+        error: phase === 'flow' ? flow.error : error,
+        isPending: phase === 'loading-position' || flow.isPending,
+        isSuccess: step === 'complete',
+        isError: step === 'error',
+        increaseTxHash: flow.hashes['increase-liquidity'],
+        position: positionInfo,
+        calculatedAmounts
+    };
+}
@@ -0,0 +1,195 @@
+import {useMemo} from 'react';
+import {Token} from "@uniswap/sdk-core";
+import {Position} from "@uniswap/v3-sdk";
+import {formatUnits} from 'viem';
+import {usePoolData} from './usePoolData';
+import {DEFAULT_TICK_RANGE_WIDTH} from '../constants/uniswap';
+import {type AmountInput, isPositiveAmount, toRawAmount} from '../utils/amount';
+import {type PriceRange, type ResolvedPriceRange, resolvePriceRange} from '../utils/priceRange';
+import {AileyError, toAileyError} from '../utils/errors';
+
+/**
+ * Parameters for quoting a liquidity deposit from one token amount
+ */
+export interface LiquidityQuoteParams {
+    /** Token A contract address */
+    tokenAAddress: `0x${string}`;
+    /** Token B contract address */
+    tokenBAddress: `0x${string}`;
+    /** Uniswap pool fee tier in basis points (defaults to the deepest existing tier) */
+    fee?: number;
+    /** Price range of the position, prices are token A prices in token B (default: current tick ±100) */
+    range?: PriceRange;
+    /** Token whose amount the user entered */
+    independentToken: 'A' | 'B';
+    /** Entered amount, human-readable string in the token's decimals or raw bigint */
+    amount: AmountInput;
+}
+
+/**
+ * Result object returned by useLiquidityQuote hook
+ */
+export interface LiquidityQuoteResult {
+    /** Token A amount to deposit (in wei/smallest unit) */
+    amountA?: bigint;
+    /** Token B amount to deposit (in wei/smallest unit) */
+    amountB?: bigint;
+    /** Token A amount formatted with its decimals, for auto-filling inputs */
+    formattedAmountA?: string;
+    /** Token B amount formatted with its decimals, for auto-filling inputs */
+    formattedAmountB?: string;
+    /** Liquidity the deposit mints */
+    liquidity?: bigint;
+    /** Share of the pool's active liquidity after the deposit, in percent (0 while out of range) */
+    shareOfPool?: number;
+    /** Whether the current price is outside the range (the deposit is single-sided) */
+    isOutOfRange: boolean;
+    /** Whether token A is part of the deposit for this range */
+    depositsTokenA: boolean;
+    /** Whether token B is part of the deposit for this range */
+    depositsTokenB: boolean;
+    /** Resolved ticks and prices of the range */
+    range?: ResolvedPriceRange;
+    tokenA?: Token;
+    tokenB?: Token;
+    /** Whether pool data is being loaded */
+    isLoading: boolean;
+    /** Whether no initialized pool exists yet, the first deposit goes through useCreatePool */
+    isPoolMissing: boolean;
+    /** POOL_NOT_FOUND if the pool is missing, INVALID_INPUT if the range or amount is invalid */
+    error: AileyError | null;
+}
+
+/**
+ * Hook to quote a liquidity deposit from a single token amount
+ *
+ * Lets UIs auto-fill the second amount as the user types instead of letting
+ * Position.fromAmounts shrink one side at submission time.
+ *
+ * Execution flow:
+ * 1. Query pool data for the requested fee tier or the deepest pool
+ * 2. Resolve the range to ticks on the pool's tick spacing
+ * 3. Work out which tokens the range needs:
+ *    - price below the range: token0 only
+ *    - price above the range: token1 only
+ *    - price in range: both, in the ratio set by the current price
+ * 4. Build the position from the entered amount with Position.fromAmount0/fromAmount1
+ * 5. Report the exact mint amounts, minted liquidity and resulting share of pool
+ */
+export function useLiquidityQuote(params?: LiquidityQuoteParams): LiquidityQuoteResult {
+    const {
+        tokenA,
+        tokenB,
+        pool,
+        tick: currentTick,
+        isLoading,
+        isPoolMissing,
+        error: poolError
+    } = usePoolData(params ? {
+        tokenAAddress: params.tokenAAddress,
+        tokenBAddress: params.tokenBAddress,
+        fee: params.fee
+    } : undefined);
+
+    const {range, independentToken, amount} = params || {};
+
+    const quote = useMemo<Partial<LiquidityQuoteResult> | undefined>(() => {
+        if (!pool || !tokenA || !tokenB || currentTick === undefined || !independentToken) return undefined;
+
+        let resolvedRange: ResolvedPriceRange;
+        try {
+            resolvedRange = resolvePriceRange(
+                range ?? {
+                    type: 'ticks',
+                    tickLower: currentTick - DEFAULT_TICK_RANGE_WIDTH,
+                    tickUpper: currentTick + DEFAULT_TICK_RANGE_WIDTH
+                },
+                tokenA,
+                tokenB,
+                currentTick,
+                pool.tickSpacing
+            );
+        } catch (e) {
+            return {error: toAileyError(e, {code: 'INVALID_INPUT'})};
+        }
+
+        const {tickLower, tickUpper} = resolvedRange;
+        const isAToken0 = tokenA.sortsBefore(tokenB);
+
+        // Below the range only token0 is deposited, above it only token1
+        const depositsToken0 = pool.tickCurrent < tickUpper;
+        const depositsToken1 = pool.tickCurrent >= tickLower;
+        const depositsTokenA = isAToken0 ? depositsToken0 : depositsToken1;
+        const depositsTokenB = isAToken0 ? depositsToken1 : depositsToken0;
+        const base = {
+            range: resolvedRange,
+            isOutOfRange: !depositsToken0 || !depositsToken1,
+            depositsTokenA,
+            depositsTokenB
+        };
+
+        if (amount === undefined || !isPositiveAmount(amount)) return base;
+
+        const independent = independentToken === 'A' ? tokenA : tokenB;
+        if (independentToken === 'A' ? !depositsTokenA : !depositsTokenB) {
+            const other = independentToken === 'A' ? tokenB : tokenA;
+            return {
+                ...base,
+                error: new AileyError(
+                    'INVALID_INPUT',
+                    `${independent.symbol ?? 'This token'} is not deposited in this range, enter the ${other.symbol ?? 'other token'} amount instead`
+                )
+            };
+        }
+
+        try {
+            const rawAmount = toRawAmount(amount, independent.decimals).toString();
+            const position = independent.equals(pool.token0)
+                ? Position.fromAmount0({pool, tickLower, tickUpper, amount0: rawAmount, useFullPrecision: true})
+                : Position.fromAmount1({pool, tickLower, tickUpper, amount1: rawAmount});
+
+            // Exact amounts the pool pulls for this liquidity (rounded up)
+            const {amount0, amount1} = position.mintAmounts;
+            const amountA = BigInt((isAToken0 ? amount0 : amount1).toString());
+            const amountB = BigInt((isAToken0 ? amount1 : amount0).toString());
+            const liquidity = BigInt(position.liquidity.toString());
+
+            // Only in-range liquidity is active, so out-of-range deposits hold no share yet
+            const activeLiquidity = BigInt(pool.liquidity.toString());
+            const shareOfPool = base.isOutOfRange || liquidity === 0n
+                ? 0
+                : Number(liquidity * 1_000_000n / (activeLiquidity + liquidity)) / 10_000;
+
+            return {
+                ...base,
+                amountA,
+                amountB,
+                formattedAmountA: formatUnits(amountA, tokenA.decimals),
+                formattedAmountB: formatUnits(amountB, tokenB.decimals),
+                liquidity,
+                shareOfPool
+            };
+        } catch (e) {
+            console.error("Failed to calculate liquidity quote:", e);
+            return {...base, error: new AileyError('INVALID_INPUT', 'Failed to calculate liquidity quote', {cause: e})};
+        }
+    }, [pool, tokenA, tokenB, currentTick, range, independentToken, amount]);
+
+    return {
+        amountA: quote?.amountA,
+        amountB: quote?.amountB,
+        formattedAmountA: quote?.formattedAmountA,
+        formattedAmountB: quote?.formattedAmountB,
+        liquidity: quote?.liquidity,
+        shareOfPool: quote?.shareOfPool,
+        isOutOfRange: quote?.isOutOfRange ?? false,
+        depositsTokenA: quote?.depositsTokenA ?? true,
+        depositsTokenB: quote?.depositsTokenB ?? true,
+        range: quote?.range,
+        tokenA,
+        tokenB,
+        isLoading,
+        isPoolMissing,
+        error: poolError ?? quote?.error ?? null
+    };
+}
@@ -0,0 +1,356 @@
+import {useCallback, useEffect, useState} from 'react';
+import {type Config, useAccount, useConfig} from 'wagmi';
+import {readContract, signTypedData} from 'wagmi/actions';
+import {domainSeparator, erc20Abi, parseSignature} from 'viem';
+import {ERC20_PERMIT_ABI, PERMIT2_ABI} from '../abi/permit.abi';
+import {PERMIT2_ADDRESS} from '../constants/uniswap';
+import {useAgentApi} from '../context/AgentApiContext';
+import {AileyError, toAileyError, UserRejectedError} from '../utils/errors';
+
+// Default validity of signed permits
+const PERMIT_DEADLINE_MINUTES = 30;             // 30 minutes signature deadline
+const PERMIT2_EXPIRATION_DAYS = 30;             // 30 days Permit2 allowance expiration
+
+/**
+ * How a token allowance can be granted
+ *
+ * - eip2612: the token implements permit(), an off-chain signature replaces approve
+ * - permit2: the wallet approved Permit2 for the token, a Permit2 signature replaces approve
+ * - approve: neither is available, an approve transaction is needed
+ */
+export type PermitKind = 'eip2612' | 'permit2' | 'approve';
+
+/**
+ * Parameters for signing a permit
+ */
+export interface PermitParams {
+    /** Token contract address */
+    token: `0x${string}`;
+    /** Amount the spender may pull (in wei/smallest unit) */
+    amount: bigint;
+    /** Spender (default: agent contract of the active chain) */
+    spender?: `0x${string}`;
+}
+
+/**
+ * Signed permit, ready to be passed to a contract that accepts permit data
+ */
+export interface PermitSignature {
+    kind: 'eip2612' | 'permit2';
+    token: `0x${string}`;
+    owner: `0x${string}`;
+    spender: `0x${string}`;
+    amount: bigint;
+    /** Token nonce (EIP-2612) or Permit2 allowance nonce */
+    nonce: bigint;
+    /** Signature deadline in seconds */
+    deadline: bigint;
+    /** Permit2 allowance expiration in seconds (Permit2 only) */
+    expiration?: number;
+    signature: `0x${string}`;
+    /** Signature split for permit(owner, spender, value, deadline, v, r, s) */
+    v: number;
+    r: `0x${string}`;
+    s: `0x${string}`;
+}
+
+/**
+ * Permit data passed to the agent's *WithPermit entry points
+ *
+ * kind 0 uses the existing allowance, 1 an EIP-2612 permit and 2 a Permit2 PermitSingle.
+ */
+export interface AgentPermitData {
+    kind: number;
+    amount: bigint;
+    nonce: bigint;
+    deadline: bigint;
+    expiration: number;
+    signature: `0x${string}`;
+}
+
+// Permit kind codes of the agent contract
+const AGENT_PERMIT_KINDS = {eip2612: 1, permit2: 2} as const;
+
+/**
+ * Result object returned by usePermitSignature hook
+ */
+export interface PermitSignatureResult {
+    /** Detect how an allowance for the token can be granted by the connected wallet */
+    getPermitKind: (token: `0x${string}`, amount: bigint) => Promise<PermitKind>;
+    /** Sign a permit, resolves null when the token needs an approve transaction or signing failed (see error) */
+    signPermit: (params: PermitParams) => Promise<PermitSignature | null>;
+    isSigning: boolean;
+    error: AileyError | null;
+}
+
+// EIP-712 domain of an EIP-2612 token, undefined when the token does not implement permit()
+async function getPermitDomain(config: Config, token: `0x${string}`, owner: `0x${string}`, chainId: number) {
+    try {
+        const [separator, name] = await Promise.all([
+            readContract(config, {address: token, abi: ERC20_PERMIT_ABI, chainId, functionName: 'DOMAIN_SEPARATOR'}),
+            readContract(config, {address: token, abi: ERC20_PERMIT_ABI, chainId, functionName: 'name'}),
+            readContract(config, {address: token, abi: ERC20_PERMIT_ABI, chainId, functionName: 'nonces', args: [owner]})
+        ]);
+        const version = await readContract(config, {
+            address: token,
+            abi: ERC20_PERMIT_ABI,
+            chainId,
+            functionName: 'version'
+        }).catch(() => '1');
+
+        const domain = {name, version, chainId, verifyingContract: token} as const;
+        return domainSeparator({domain}) === separator ? domain : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Detect how the owner can grant an allowance for the token
+ *
+ * @param config Wagmi config (from useConfig)
+ * @param params Token, owner, amount needed and chain of the token
+ */
+export async function readPermitKind(
+    config: Config,
+    {token, owner, amount, chainId}: { token: `0x${string}`; owner: `0x${string}`; amount: bigint; chainId: number }
+): Promise<PermitKind> {
+    // 1. EIP-2612
+    if (await getPermitDomain(config, token, owner, chainId)) return 'eip2612';
+
+    // 2. Permit2
+    try {
+        const permit2Allowance = await readContract(config, {
+            address: token,
+            abi: erc20Abi,
+            chainId,
+            functionName: 'allowance',
+            args: [owner, PERMIT2_ADDRESS]
+        });
+        if (permit2Allowance >= amount) return 'permit2';
+    } catch (e) {
+        console.error("Failed to check Permit2 allowance:", e);
+    }
+
+    return 'approve';
+}
+
+/**
+ * Sign an EIP-2612 Permit or Permit2 PermitSingle for exactly the amount
+ *
+ * Resolves null when the token supports neither and needs an approve transaction.
+ * A rejected signature throws UserRejectedError, other failures throw their AileyError.
+ *
+ * @param config Wagmi config (from useConfig)
+ * @param params Token, owner, spender, amount and chain of the token
+ */
+export async function signTokenPermit(
+    config: Config,
+    {token, owner, spender, amount, chainId}: {
+        token: `0x${string}`;
+        owner: `0x${string}`;
+        spender: `0x${string}`;
+        amount: bigint;
+        chainId: number;
+    }
+): Promise<PermitSignature | null> {
+    try {
+        const deadline = BigInt(Math.floor(Date.now() / 1000) + 60 * PERMIT_DEADLINE_MINUTES);
+
+        // 3. Sign EIP-2612 Permit
+        const domain = await getPermitDomain(config, token, owner, chainId);
+        if (domain) {
+            const nonce = await readContract(config, {
+                address: token,
+                abi: ERC20_PERMIT_ABI,
+                chainId,
+                functionName: 'nonces',
+                args: [owner]
+            });
+            const signature = await signTypedData(config, {
+                domain,
+                types: {
+                    Permit: [
+                        {name: 'owner', type: 'address'},
+                        {name: 'spender', type: 'address'},
+                        {name: 'value', type: 'uint256'},
+                        {name: 'nonce', type: 'uint256'},
+                        {name: 'deadline', type: 'uint256'}
+                    ]
+                },
+                primaryType: 'Permit',
+                message: {owner, spender, value: amount, nonce, deadline}
+            });
+            const {v, r, s, yParity} = parseSignature(signature);
+
+            return {
+                kind: 'eip2612',
+                token,
+                owner,
+                spender,
+                amount,
+                nonce,
+                deadline,
+                signature,
+                v: v !== undefined ? Number(v) : yParity + 27,
+                r,
+                s
+            };
+        }
+
+        // 3. Sign Permit2 PermitSingle, or fall back to approve
+        if (await readPermitKind(config, {token, owner, amount, chainId}) !== 'permit2') return null;
+
+        const [, , nonce] = await readContract(config, {
+            address: PERMIT2_ADDRESS,
+            abi: PERMIT2_ABI,
+            chainId,
+            functionName: 'allowance',
+            args: [owner, token, spender]
+        });
+        const expiration = Math.floor(Date.now() / 1000) + 60 * 60 * 24 * PERMIT2_EXPIRATION_DAYS;
+        const signature = await signTypedData(config, {
+            domain: {name: 'Permit2', chainId, verifyingContract: PERMIT2_ADDRESS},
+            types: {
+                PermitDetails: [
+                    {name: 'token', type: 'address'},
+                    {name: 'amount', type: 'uint160'},
+                    {name: 'expiration', type: 'uint48'},
+                    {name: 'nonce', type: 'uint48'}
+                ],
+                PermitSingle: [
+                    {name: 'details', type: 'PermitDetails'},
+                    {name: 'spender', type: 'address'},
+                    {name: 'sigDeadline', type: 'uint256'}
+                ]
+            },
+            primaryType: 'PermitSingle',
+            message: {
+                details: {token, amount, expiration, nonce},
+                spender,
+                sigDeadline: deadline
+            }
+        });
+        const {v, r, s, yParity} = parseSignature(signature);
+
+        return {
+            kind: 'permit2',
+            token,
+            owner,
+            spender,
+            amount,
+            nonce: BigInt(nonce),
+            deadline,
+            expiration,
+            signature,
+            v: v !== undefined ? Number(v) : yParity + 27,
+            r,
+            s
+        };
+    } catch (e) {
+        const signError = toAileyError(e);
+        throw signError.code === 'USER_REJECTED' ? new UserRejectedError('Signature was rejected.', {cause: e}) : signError;
+    }
+}
+
+/**
+ * Permit data for the agent's *WithPermit entry points, kind 0 (existing allowance) without a permit
+ *
+ * @param permit Signed permit for the token
+ */
+export function toAgentPermit(permit?: PermitSignature): AgentPermitData {
+    if (!permit) return {kind: 0, amount: 0n, nonce: 0n, deadline: 0n, expiration: 0, signature: '0x'};
+    return {
+        kind: AGENT_PERMIT_KINDS[permit.kind],
+        amount: permit.amount,
+        nonce: permit.nonce,
+        deadline: permit.deadline,
+        expiration: permit.expiration ?? 0,
+        signature: permit.signature
+    };
+}
+
+/**
+ * Hook to detect how the wallet can grant an allowance, for planning transactions before a flow runs
+ *
+ * @param token Token contract address, nothing is read while undefined
+ * @param owner Wallet granting the allowance
+ * @param amount Amount needed (in wei/smallest unit)
+ * @param chainId Chain of the token
+ */
+export function usePermitKind(
+    token: `0x${string}` | undefined,
+    owner: `0x${string}` | undefined,
+    amount: bigint | undefined,
+    chainId: number
+): { permitKind?: PermitKind; isLoading: boolean } {
+    const config = useConfig();
+    const [state, setState] = useState<{ token: string; owner: string; amount: bigint; chainId: number; permitKind: PermitKind }>();
+
+    const isEnabled = !!token && !!owner && amount !== undefined;
+
+    useEffect(() => {
+        let cancelled = false;
+        if (!token || !owner || amount === undefined) return;
+
+        readPermitKind(config, {token, owner, amount, chainId}).then(permitKind => {
+            if (!cancelled) setState({token, owner, amount, chainId, permitKind});
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [config, token, owner, amount, chainId]);
+
+    // Kind detected for the current params only, a stale one would plan the wrong transactions
+    const isCurrent = isEnabled && state?.token === token && state.owner === owner && state.amount === amount &&
+        state.chainId === chainId;
+    return {permitKind: isCurrent ? state.permitKind : undefined, isLoading: isEnabled && !isCurrent};
+}
+
+/**
+ * Hook to replace approve transactions with EIP-2612 or Permit2 signatures
+ *
+ * useCallSwap and useAddLiquidity sign permits for the agent contract themselves (see SwapParams.permit).
+ * Use this hook to sign permits for the agent or for other spenders that accept EIP-2612 permits or
+ * Permit2 PermitSingle data.
+ *
+ * Execution flow:
+ * 1. Detect EIP-2612 support: DOMAIN_SEPARATOR() and nonces() exist and the domain rebuilt from
+ *    name()/version() matches the token's DOMAIN_SEPARATOR
+ * 2. Otherwise detect Permit2: the wallet's allowance to Permit2 covers the amount
+ * 3. Sign the EIP-2612 Permit or Permit2 PermitSingle typed data, or resolve null to fall back to approve
+ */
+export function usePermitSignature(): PermitSignatureResult {
+    const {address: agentAddress, chainId} = useAgentApi();
+    const {address: userAddress} = useAccount();
+    const config = useConfig();
+
+    const [isSigning, setIsSigning] = useState(false);
+    const [error, setError] = useState<AileyError | null>(null);
+
+    const getPermitKind = useCallback(async (token: `0x${string}`, amount: bigint): Promise<PermitKind> => {
+        if (!userAddress) return 'approve';
+        return readPermitKind(config, {token, owner: userAddress, amount, chainId});
+    }, [userAddress, config, chainId]);
+
+    const signPermit = useCallback(async ({token, amount, spender}: PermitParams): Promise<PermitSignature | null> => {
+        const spenderAddress = spender ?? agentAddress;
+        if (!userAddress || !spenderAddress) {
+            setError(new AileyError('WALLET_NOT_CONNECTED', 'Please connect your wallet'));
+            return null;
+        }
+
+        setIsSigning(true);
+        setError(null);
+        try {
+            return await signTokenPermit(config, {token, owner: userAddress, spender: spenderAddress, amount, chainId});
+        } catch (e) {
+            setError(toAileyError(e));
+            return null;
+        } finally {
+            setIsSigning(false);
+        }
+    }, [agentAddress, userAddress, config, chainId]);
+
+    return {getPermitKind, signPermit, isSigning, error};
+}
@@ -0,0 +1,118 @@
+import {useMemo} from 'react';
+import {useReadContracts} from 'wagmi';
+import {UNISWAP_V3_POOL_ABI} from '../abi/uniswapV3.abi';
+import {BitmapTickDataProvider, compressTick, tickBitmapPosition} from '../utils/tickDataProvider';
+import type {PoolInfo} from './usePools';
+
+// Number of tickBitmap words loaded on each side of the current price
+const TICK_WORD_RADIUS = 2;
+
+/**
+ * Result object returned by usePoolTicks hook
+ */
+export interface PoolTicksResult {
+    /** Tick data providers keyed by lowercase pool address */
+    tickProviders: Map<string, BitmapTickDataProvider>;
+    /** Whether tick data is being loaded */
+    isLoading: boolean;
+}
+
+/**
+ * Hook to load initialized tick data around the current price of each pool
+ *
+ * Execution flow:
+ * 1. Fetch tickBitmap words around the current tick of every pool in a single multicall
+ * 2. Decode initialized ticks from the bitmap words
+ * 3. Fetch liquidityNet for every initialized tick in a single multicall
+ * 4. Build a tick data provider per pool for swap simulation
+ *
+ * @param pools Pools to load tick data for (must be memoized by the caller)
+ */
+export function usePoolTicks(pools: readonly PoolInfo[]): PoolTicksResult {
+    // 1. Fetch tickBitmap words around the current tick
+    const wordQueries = useMemo(() => pools.flatMap(info => {
+        const tickSpacing = info.pool.tickSpacing;
+        const [currentWord] = tickBitmapPosition(compressTick(info.tick, tickSpacing));
+
+        return Array.from({length: TICK_WORD_RADIUS * 2 + 1}, (_, i) => ({
+            address: info.address,
+            tickSpacing,
+            wordPos: currentWord - TICK_WORD_RADIUS + i
+        }));
+    }), [pools]);
+
+    const {data: bitmapData, isLoading: isBitmapLoading} = useReadContracts({
+        contracts: wordQueries.map(query => ({
+            address: query.address,
+            abi: UNISWAP_V3_POOL_ABI,
+            functionName: 'tickBitmap',
+            args: [query.wordPos]
+        } as const)),
+        query: {enabled: wordQueries.length > 0}
+    });
+
+    // 2. Decode initialized ticks from the bitmap words
+    const tickQueries = useMemo(() => {
+        if (!bitmapData) return [];
+
+        return wordQueries.flatMap((query, i) => {
+            const word = bitmapData[i]?.result;
+            if (typeof word !== 'bigint' || word === 0n) return [];
+
+            const ticks: { address: `0x${string}`; tick: number }[] = [];
+            for (let bit = 0; bit < 256; bit++) {
+                if ((word >> BigInt(bit)) & 1n) {
+                    ticks.push({address: query.address, tick: (query.wordPos * 256 + bit) * query.tickSpacing});
+                }
+            }
+            return ticks;
+        });
+    }, [bitmapData, wordQueries]);
+
+    // 3. Fetch liquidityNet for every initialized tick
+    const {data: tickData, isLoading: isTickLoading} = useReadContracts({
+        contracts: tickQueries.map(query => ({
+            address: query.address,
+            abi: UNISWAP_V3_POOL_ABI,
+            functionName: 'ticks',
+            args: [query.tick]
+        } as const)),
+        query: {enabled: tickQueries.length > 0}
+    });
+
+    // 4. Build tick data providers
+    const tickProviders = useMemo(() => {
+        const providers = new Map<string, BitmapTickDataProvider>();
+        if (!bitmapData || (tickQueries.length > 0 && !tickData)) return providers;
+
+        const bitmaps = new Map<string, Map<number, bigint>>();
+        wordQueries.forEach((query, i) => {
+            const word = bitmapData[i]?.result;
+            if (typeof word !== 'bigint') return;
+
+            const key = query.address.toLowerCase();
+            if (!bitmaps.has(key)) bitmaps.set(key, new Map());
+            bitmaps.get(key)!.set(query.wordPos, word);
+        });
+
+        const liquidityNets = new Map<string, Map<number, bigint>>();
+        tickQueries.forEach((query, i) => {
+            const result = tickData?.[i]?.result;
+            if (!result) return;
+
+            const key = query.address.toLowerCase();
+            if (!liquidityNets.has(key)) liquidityNets.set(key, new Map());
+            liquidityNets.get(key)!.set(query.tick, result[1]);
+        });
+
+        bitmaps.forEach((words, key) => {
+            providers.set(key, new BitmapTickDataProvider(words, liquidityNets.get(key) ?? new Map()));
+        });
+        return providers;
+    }, [bitmapData, tickData, wordQueries, tickQueries]);
+
+    return {
+        tickProviders,
+        isLoading: isBitmapLoading || isTickLoading
+    };
+}
@@ -0,0 +1,59 @@
+import {useReadContracts} from 'wagmi';
+import {UNISWAP_V3_POOL_ABI} from '../abi/uniswapV3.abi';
+
+// Window the current price is compared against (30 minutes)
+const VOLATILITY_WINDOW_SECONDS = 30 * 60;
+
+/**
+ * Result object returned by usePoolVolatility hook
+ * @internal
+ */
+export interface PoolVolatilityResult {
+    /**
+     * Price movement across the pools in basis points: the distance between each pool's current tick and
+     * its 30-minute average tick, summed over the pools (1 tick ≈ 1 bp). Undefined when a pool's oracle
+     * history does not cover the window.
+     */
+    volatilityBps?: number;
+    isLoading: boolean;
+}
+
+/**
+ * Hook to measure recent price movement of Uniswap V3 pools from their tick oracle, used by 'auto' slippage
+ *
+ * Execution flow:
+ * 1. Read slot0 and observe([window, 0]) of every pool in one multicall
+ * 2. Average tick over the window = Δ tickCumulative / window
+ * 3. Sum |current tick - average tick| over the pools (hops of a route compound)
+ *
+ * @param poolAddresses Pools to measure (e.g. every hop of a swap route)
+ * @param enabled Skip the reads when false
+ */
+export function usePoolVolatility(poolAddresses: readonly `0x${string}`[] | undefined, enabled = true): PoolVolatilityResult {
+    const addresses = poolAddresses ?? [];
+
+    const {data, isLoading} = useReadContracts({
+        contracts: addresses.flatMap(address => [
+            {address, abi: UNISWAP_V3_POOL_ABI, functionName: 'slot0'},
+            {address, abi: UNISWAP_V3_POOL_ABI, functionName: 'observe', args: [[VOLATILITY_WINDOW_SECONDS, 0]]},
+        ] as const),
+        query: {enabled: enabled && addresses.length > 0}
+    });
+
+    if (!enabled || !data) return {isLoading: enabled && addresses.length > 0 && isLoading};
+
+    let volatilityBps = 0;
+    for (let i = 0; i < addresses.length; i++) {
+        const slot0 = data[i * 2]?.result as readonly [bigint, number, ...unknown[]] | undefined;
+        const observations = data[i * 2 + 1]?.result as readonly [readonly bigint[], readonly bigint[]] | undefined;
+
+        // observe() reverts when the oracle holds fewer observations than the window needs
+        if (!slot0 || !observations) return {isLoading: false};
+
+        const [pastCumulative, currentCumulative] = observations[0];
+        const averageTick = Number(currentCumulative - pastCumulative) / VOLATILITY_WINDOW_SECONDS;
+        volatilityBps += Math.abs(slot0[1] - averageTick);
+    }
+
+    return {volatilityBps: Math.round(volatilityBps), isLoading: false};
+}
@@ -0,0 +1,270 @@
+import {useCallback, useMemo} from 'react';
+import {useReadContracts} from 'wagmi';
+import {erc20Abi, zeroAddress} from 'viem';
+import {Price, Token} from "@uniswap/sdk-core";
+import {Pool} from "@uniswap/v3-sdk";
+import {UNISWAP_V3_FACTORY_ABI, UNISWAP_V3_POOL_ABI} from '../abi/uniswapV3.abi';
+import {FEE_TIERS} from '../constants/uniswap';
+import {useDexDeployment} from './useDexDeployment';
+import {computePoolAddress} from '../utils/poolAddress';
+import {type AileyError, PoolNotFoundError} from '../utils/errors';
+
+/**
+ * Existing Uniswap V3 pool for a token pair and fee tier
+ */
+export interface PoolInfo {
+    /** Address of the Uniswap V3 pool */
+    address: `0x${string}`;
+    /** Pool fee tier in basis points (100 = 0.01%) */
+    fee: number;
+    /** Uniswap Pool object with current state */
+    pool: Pool;
+    /** Current sqrt price from pool slot0 */
+    sqrtPriceX96: bigint;
+    /** Current tick from pool slot0 */
+    tick: number;
+    /** Current in-range liquidity */
+    liquidity: bigint;
+    /** Price of the first token of the pair in terms of the second */
+    price: Price<Token, Token>;
+}
+
+/**
+ * Result object returned by usePools hook
+ */
+export interface PoolsResult {
+    /** Uniswap Token object for tokenA */
+    tokenA?: Token;
+    /** Uniswap Token object for tokenB */
+    tokenB?: Token;
+    /** Every initialized pool for the pair, ordered by fee tier */
+    pools: PoolInfo[];
+    /** Pool with the most in-range liquidity */
+    deepestPool?: PoolInfo;
+    /** Whether pool data is being loaded */
+    isLoading: boolean;
+    /** Whether the lookup completed without finding an initialized pool (create one with useCreatePool) */
+    isPoolMissing: boolean;
+    /** POOL_NOT_FOUND if no pool exists for the pair, NOT_CONFIGURED without a DEX deployment */
+    error: AileyError | null;
+    /** Look the pools up again (e.g. after creating one), resolves once the lookup is refetched */
+    refetch: () => Promise<void>;
+}
+
+/**
+ * Result of discovering pools for a set of token pairs
+ * @internal
+ */
+export interface PoolDiscoveryResult {
+    /** Token objects keyed by lowercase address */
+    tokens: Map<string, Token>;
+    /** Every initialized pool, in pair and fee tier order */
+    pools: (PoolInfo & { tokenA: Token; tokenB: Token })[];
+    /** Whether any lookup is in progress */
+    isLoading: boolean;
+    /** Whether every lookup has completed */
+    isResolved: boolean;
+    /** NOT_CONFIGURED error if the active chain has no Uniswap V3 deployment configured */
+    error: AileyError | null;
+    /** Refetch pool addresses, token metadata and pool state */
+    refetch: () => Promise<void>;
+}
+
+/**
+ * Find every initialized pool for a set of token pairs across fee tiers
+ *
+ * Used by usePools for a single pair and by useSwapRoute for routing candidates.
+ * Arguments must be memoized by the caller.
+ *
+ * Execution flow:
+ * 1. Query the Uniswap V3 Factory of the active chain for every pair and fee tier in a single multicall,
+ *    or compute the pool addresses locally when the deployment sets poolInitCodeHash
+ * 2. Fetch token metadata (decimals, symbols) for every token
+ * 3. Fetch pool state (price, liquidity) for every existing pool in a single multicall
+ * 4. Create Pool objects with current state
+ *
+ * @internal
+ */
+export function usePoolDiscovery(
+    tokenAddresses: readonly `0x${string}`[],
+    pairs: readonly (readonly [`0x${string}`, `0x${string}`])[],
+    feeTiers: readonly number[]
+): PoolDiscoveryResult {
+    // Chain the wallet is on (like useAgentApi), tokens are tagged with the chain the pools are read from
+    const {deployment, chainId, error: deploymentError} = useDexDeployment();
+    const factoryAddress = deployment?.factory;
+    const initCodeHash = deployment?.poolInitCodeHash;
+
+    const poolCandidates = useMemo(
+        () => factoryAddress ? pairs.flatMap(([tokenA, tokenB]) => feeTiers.map(fee => ({tokenA, tokenB, fee}))) : [],
+        [factoryAddress, pairs, feeTiers]
+    );
+
+    // 1. Find pool addresses for every pair and fee tier
+    const {data: poolAddressData, isLoading: isPoolAddressLoading, refetch: refetchPoolAddresses} = useReadContracts({
+        contracts: poolCandidates.map(candidate => ({
+            address: factoryAddress!,
+            abi: UNISWAP_V3_FACTORY_ABI,
+            chainId,
+            functionName: 'getPool',
+            args: [candidate.tokenA, candidate.tokenB, candidate.fee]
+        } as const)),
+        query: {enabled: poolCandidates.length > 0 && !initCodeHash}
+    });
+
+    const existingPools = useMemo(() => {
+        // Computed addresses include pools that were never created, their state reads fail and they are skipped
+        if (initCodeHash) {
+            return poolCandidates.map(candidate => ({
+                ...candidate,
+                address: computePoolAddress(factoryAddress!, candidate.tokenA, candidate.tokenB, candidate.fee, initCodeHash)
+            }));
+        }
+        if (!poolAddressData) return [];
+
+        return poolCandidates
+            .map((candidate, i) => ({...candidate, address: poolAddressData[i]?.result as `0x${string}` | undefined}))
+            .filter((candidate): candidate is typeof candidate & { address: `0x${string}` } =>
+                !!candidate.address && candidate.address !== zeroAddress);
+    }, [initCodeHash, factoryAddress, poolAddressData, poolCandidates]);
+
+    // 2. Fetch token metadata
+    const {data: tokenData, isLoading: isTokenDataLoading, refetch: refetchTokenData} = useReadContracts({
+        contracts: tokenAddresses.flatMap(address => [
+            {address, abi: erc20Abi, chainId, functionName: 'decimals'},
+            {address, abi: erc20Abi, chainId, functionName: 'symbol'},
+        ] as const),
+        query: {enabled: tokenAddresses.length > 0}
+    });
+
+    // 3. Fetch pool state
+    const {data: poolStateData, isLoading: isPoolStateLoading, refetch: refetchPoolState} = useReadContracts({
+        contracts: existingPools.flatMap(({address}) => [
+            {address, abi: UNISWAP_V3_POOL_ABI, chainId, functionName: 'slot0'},
+            {address, abi: UNISWAP_V3_POOL_ABI, chainId, functionName: 'liquidity'},
+        ] as const),
+        query: {enabled: existingPools.length > 0}
+    });
+
+    const tokens = useMemo(() => {
+        const map = new Map<string, Token>();
+        if (!tokenData || !chainId) return map;
+
+        tokenAddresses.forEach((address, i) => {
+            const decimals = tokenData[i * 2]?.result;
+            const symbol = tokenData[i * 2 + 1]?.result;
+            if (typeof decimals === 'number') {
+                map.set(address.toLowerCase(), new Token(chainId, address, decimals, symbol as string || 'TOKEN'));
+            }
+        });
+        return map;
+    }, [tokenData, chainId, tokenAddresses]);
+
+    // 4. Create Pool objects with current state
+    const pools = useMemo(() => {
+        if (!poolStateData) return [];
+
+        return existingPools.flatMap((candidate, i) => {
+            const slot0 = poolStateData[i * 2]?.result as readonly [bigint, number, ...unknown[]] | undefined;
+            const liquidity = poolStateData[i * 2 + 1]?.result;
+            const tokenA = tokens.get(candidate.tokenA.toLowerCase());
+            const tokenB = tokens.get(candidate.tokenB.toLowerCase());
+
+            // Skip pools that are not initialized yet
+            if (!slot0 || slot0[0] === 0n || typeof liquidity !== 'bigint' || !tokenA || !tokenB) return [];
+
+            try {
+                const [sqrtPriceX96, tick] = slot0;
+                const pool = new Pool(tokenA, tokenB, candidate.fee, sqrtPriceX96.toString(), liquidity.toString(), tick);
+                return [{
+                    address: candidate.address,
+                    fee: candidate.fee,
+                    pool,
+                    sqrtPriceX96,
+                    tick,
+                    liquidity,
+                    price: pool.priceOf(tokenA),
+                    tokenA,
+                    tokenB
+                }];
+            } catch (e) {
+                console.error("Failed to create Pool object:", e);
+                return [];
+            }
+        });
+    }, [poolStateData, existingPools, tokens]);
+
+    // Pools found by the address refetch load their state under a new query, existing ones are refetched here
+    const refetch = useCallback(async () => {
+        await Promise.all([
+            poolCandidates.length > 0 && !initCodeHash && refetchPoolAddresses(),
+            tokenAddresses.length > 0 && refetchTokenData(),
+            existingPools.length > 0 && refetchPoolState()
+        ]);
+    }, [poolCandidates, initCodeHash, tokenAddresses, existingPools, refetchPoolAddresses, refetchTokenData,
+        refetchPoolState]);
+
+    return {
+        tokens,
+        pools,
+        isLoading: isTokenDataLoading || isPoolAddressLoading || isPoolStateLoading,
+        isResolved: (!!initCodeHash || !!poolAddressData) && !!tokenData && (existingPools.length === 0 || !!poolStateData),
+        error: deploymentError,
+        refetch
+    };
+}
+
+/**
+ * Hook to discover every Uniswap V3 pool for a token pair
+ *
+ * Queries all standard fee tiers (100/500/3000/10000) in one multicall and returns
+ * every initialized pool with its liquidity and price, plus the deepest one.
+ *
+ * @param tokenAAddress First token contract address
+ * @param tokenBAddress Second token contract address
+ * @param feeTiers Fee tiers to query (default: all standard tiers)
+ */
+export function usePools(
+    tokenAAddress?: `0x${string}`,
+    tokenBAddress?: `0x${string}`,
+    feeTiers: readonly number[] = FEE_TIERS
+): PoolsResult {
+    const feeTiersKey = feeTiers.join(',');
+
+    const tokenAddresses = useMemo(
+        () => tokenAAddress && tokenBAddress ? [tokenAAddress, tokenBAddress] : [],
+        [tokenAAddress, tokenBAddress]
+    );
+    const pairs = useMemo(
+        () => tokenAAddress && tokenBAddress ? [[tokenAAddress, tokenBAddress] as const] : [],
+        [tokenAAddress, tokenBAddress]
+    );
+    const fees = useMemo(() => feeTiersKey.split(',').map(Number), [feeTiersKey]);
+
+    const {tokens, pools, isLoading, isResolved, error: discoveryError, refetch} = usePoolDiscovery(tokenAddresses, pairs, fees);
+
+    const deepestPool = useMemo(
+        () => pools.reduce<PoolInfo | undefined>(
+            (deepest, pool) => !deepest || pool.liquidity > deepest.liquidity ? pool : deepest,
+            undefined
+        ),
+        [pools]
+    );
+
+    const isPoolMissing = !!tokenAAddress && !!tokenBAddress && !discoveryError && !isLoading && isResolved &&
+        pools.length === 0;
+    const error = useMemo(() => discoveryError ?? (isPoolMissing
+        ? new PoolNotFoundError(`Pool not found for the given tokens in any fee tier (${fees.map(fee => `${fee / 10000}%`).join(', ')})`)
+        : null), [discoveryError, isPoolMissing, fees]);
+
+    return {
+        tokenA: tokenAAddress ? tokens.get(tokenAAddress.toLowerCase()) : undefined,
+        tokenB: tokenBAddress ? tokens.get(tokenBAddress.toLowerCase()) : undefined,
+        pools,
+        deepestPool,
+        isLoading,
+        isPoolMissing,
+        error,
+        refetch
+    };
+}
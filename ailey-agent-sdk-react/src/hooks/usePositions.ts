@@ -0,0 +1,332 @@
+import {useCallback, useEffect, useMemo, useState} from 'react';
+import {useAccount, usePublicClient, useReadContract, useReadContracts} from 'wagmi';
+import {isAddressEqual, maxUint128} from 'viem';
+import {Price, Token} from "@uniswap/sdk-core";
+import {Pool, Position, tickToPrice} from "@uniswap/v3-sdk";
+import {UNISWAP_V3_POSITION_MANAGER_ABI} from '../abi/uniswapV3.abi';
+import {usePoolDiscovery} from './usePools';
+import {useDexDeployment} from './useDexDeployment';
+import {useAgentApi} from '../context/AgentApiContext';
+import {AileyError} from '../utils/errors';
+
+/**
+ * Uniswap V3 liquidity position held as a NonfungiblePositionManager NFT
+ */
+export interface PositionInfo {
+    /** Position NFT id */
+    tokenId: bigint;
+    /** Uniswap Token object for token0 */
+    token0: Token;
+    /** Uniswap Token object for token1 */
+    token1: Token;
+    /** Pool fee tier in basis points (100 = 0.01%) */
+    fee: number;
+    tickLower: number;
+    tickUpper: number;
+    /** Liquidity of the position */
+    liquidity: bigint;
+    /** Token0 price in token1 at the lower end of the range */
+    priceLower: Price<Token, Token>;
+    /** Token0 price in token1 at the upper end of the range */
+    priceUpper: Price<Token, Token>;
+    /** Address of the Uniswap V3 pool */
+    poolAddress?: `0x${string}`;
+    /** Uniswap Pool object with current state */
+    pool?: Pool;
+    /** Uniswap Position object for amount calculations */
+    position?: Position;
+    /** Token0 currently held by the position (in wei/smallest unit) */
+    amount0?: bigint;
+    /** Token1 currently held by the position (in wei/smallest unit) */
+    amount1?: bigint;
+    /** Whether the current price is inside the range (the position earns fees) */
+    inRange?: boolean;
+    /** Token0 fees and withdrawn liquidity waiting to be collected */
+    uncollectedFees0?: bigint;
+    /** Token1 fees and withdrawn liquidity waiting to be collected */
+    uncollectedFees1?: bigint;
+}
+
+/**
+ * Result object returned by usePositions hook
+ */
+export interface PositionsResult {
+    /** Positions of the owner, in NFT enumeration order */
+    positions: PositionInfo[];
+    /** Whether positions are being loaded */
+    isLoading: boolean;
+    /**
+     * Whether the positions are held by the agent contract
+     * They are read-only: the position hooks manage positions from the wallet and cannot act on them.
+     */
+    isAgentHeld: boolean;
+    /** NOT_CONFIGURED without a position manager, READ_FAILED if positions could not be loaded */
+    error: AileyError | null;
+    /** Reload positions and uncollected fees */
+    refetch: () => void;
+}
+
+/**
+ * Result of loading position details
+ * @internal
+ */
+export interface PositionDetailsResult {
+    positions: PositionInfo[];
+    isLoading: boolean;
+    /** Whether every position and its pool have been looked up (missing ones are then left out or have no pool) */
+    isResolved: boolean;
+    error: AileyError | null;
+    refetch: () => void;
+}
+
+/**
+ * Load position state, pool state and uncollected fees for a set of position NFTs
+ *
+ * Used by usePositions after enumeration and by the position management flows for a single
+ * position. Arguments must be memoized by the caller.
+ *
+ * Execution flow:
+ * 1. Fetch positions(tokenId) for every NFT in a single multicall
+ * 2. Discover the pools and token metadata of every position with usePoolDiscovery
+ * 3. Build Position objects to derive current amounts and in-range status
+ * 4. Simulate collect() from the owner to read uncollected fees (fees are only settled on-chain by a pool interaction)
+ *
+ * @param tokenIds Position NFT ids
+ * @param owner Position owner, required to simulate fee collection
+ * @internal
+ */
+export function usePositionDetails(tokenIds: readonly bigint[], owner?: `0x${string}`): PositionDetailsResult {
+    const {deployment, chainId} = useDexDeployment();
+    const publicClient = usePublicClient();
+    const positionManager = deployment?.positionManager;
+
+    // 1. Fetch raw position state
+    const {
+        data: positionData,
+        isLoading: isPositionLoading,
+        error: positionError,
+        refetch: refetchPositions
+    } = useReadContracts({
+        contracts: tokenIds.map(tokenId => ({
+            address: positionManager!,
+            abi: UNISWAP_V3_POSITION_MANAGER_ABI,
+            functionName: 'positions',
+            args: [tokenId]
+        } as const)),
+        query: {enabled: !!positionManager && tokenIds.length > 0}
+    });
+
+    const rawPositions = useMemo(() => {
+        if (!positionData) return [];
+
+        return tokenIds.flatMap((tokenId, i) => {
+            const result = positionData[i]?.result;
+            if (!result) return [];
+
+            const [, , token0, token1, fee, tickLower, tickUpper, liquidity] = result;
+            return [{tokenId, token0, token1, fee, tickLower, tickUpper, liquidity}];
+        });
+    }, [positionData, tokenIds]);
+
+    // 2. Discover pools and tokens of every position
+    const {tokenAddresses, pairs, fees} = useMemo(() => {
+        const tokenSet = new Set<`0x${string}`>();
+        const pairSet = new Map<string, readonly [`0x${string}`, `0x${string}`]>();
+        const feeSet = new Set<number>();
+
+        rawPositions.forEach(({token0, token1, fee}) => {
+            tokenSet.add(token0);
+            tokenSet.add(token1);
+            pairSet.set(`${token0}-${token1}`.toLowerCase(), [token0, token1] as const);
+            feeSet.add(fee);
+        });
+
+        return {tokenAddresses: [...tokenSet], pairs: [...pairSet.values()], fees: [...feeSet]};
+    }, [rawPositions]);
+
+    const {
+        tokens,
+        pools: discoveredPools,
+        isLoading: isPoolsLoading,
+        isResolved: isPoolsResolved
+    } = usePoolDiscovery(tokenAddresses, pairs, fees);
+
+    // 3. Build position objects
+    const basePositions = useMemo(() => rawPositions.flatMap(raw => {
+        const token0 = tokens.get(raw.token0.toLowerCase());
+        const token1 = tokens.get(raw.token1.toLowerCase());
+        if (!token0 || !token1) return [];
+
+        const poolInfo = discoveredPools.find(info =>
+            info.fee === raw.fee && info.pool.token0.equals(token0) && info.pool.token1.equals(token1));
+
+        let position: Position | undefined;
+        if (poolInfo) {
+            try {
+                position = new Position({
+                    pool: poolInfo.pool,
+                    liquidity: raw.liquidity.toString(),
+                    tickLower: raw.tickLower,
+                    tickUpper: raw.tickUpper
+                });
+            } catch (e) {
+                console.error("Failed to create Position object:", e);
+            }
+        }
+
+        return [{
+            tokenId: raw.tokenId,
+            token0,
+            token1,
+            fee: raw.fee,
+            tickLower: raw.tickLower,
+            tickUpper: raw.tickUpper,
+            liquidity: raw.liquidity,
+            priceLower: tickToPrice(token0, token1, raw.tickLower),
+            priceUpper: tickToPrice(token0, token1, raw.tickUpper),
+            poolAddress: poolInfo?.address,
+            pool: poolInfo?.pool,
+            position,
+            amount0: position ? BigInt(position.amount0.quotient.toString()) : undefined,
+            amount1: position ? BigInt(position.amount1.quotient.toString()) : undefined,
+            inRange: poolInfo ? poolInfo.tick >= raw.tickLower && poolInfo.tick < raw.tickUpper : undefined
+        }];
+    }), [rawPositions, tokens, discoveredPools]);
+
+    // 4. Simulate fee collection from the owner
+    const [fees0and1, setFees] = useState<Map<bigint, readonly [bigint, bigint]>>(new Map());
+    const [feesNonce, setFeesNonce] = useState(0);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        const fetchFees = async () => {
+            if (!publicClient || !positionManager || !owner || tokenIds.length === 0) {
+                setFees(new Map());
+                return;
+            }
+
+            const results = await Promise.all(tokenIds.map(async tokenId => {
+                try {
+                    const {result} = await publicClient.simulateContract({
+                        address: positionManager,
+                        abi: UNISWAP_V3_POSITION_MANAGER_ABI,
+                        functionName: 'collect',
+                        args: [{tokenId, recipient: owner, amount0Max: maxUint128, amount1Max: maxUint128}],
+                        account: owner
+                    });
+                    return [tokenId, result] as const;
+                } catch (e) {
+                    console.error(`Failed to simulate fee collection for position ${tokenId}:`, e);
+                    return undefined;
+                }
+            }));
+
+            if (cancelled) return;
+            setFees(new Map(results.filter(result => result !== undefined)));
+        };
+
+        fetchFees();
+        return () => {
+            cancelled = true;
+        };
+    }, [publicClient, positionManager, owner, tokenIds, feesNonce]);
+
+    const positions = useMemo(() => basePositions.map(position => {
+        const owed = fees0and1.get(position.tokenId);
+        return {...position, uncollectedFees0: owed?.[0], uncollectedFees1: owed?.[1]};
+    }), [basePositions, fees0and1]);
+
+    const refetch = useCallback(() => {
+        refetchPositions();
+        setFeesNonce(nonce => nonce + 1);
+    }, [refetchPositions]);
+
+    const error = useMemo(() => {
+        if (!positionManager) {
+            return new AileyError(
+                'NOT_CONFIGURED',
+                `NonfungiblePositionManager address is not configured for chain ${chainId}. Add positionManager to aileyConfig.dex.`
+            );
+        }
+        return positionError ? new AileyError('READ_FAILED', 'Failed to load positions', {cause: positionError}) : null;
+    }, [positionManager, chainId, positionError]);
+
+    return {
+        positions,
+        isLoading: isPositionLoading || isPoolsLoading,
+        isResolved: !!positionData && (rawPositions.length === 0 || isPoolsResolved),
+        error,
+        refetch
+    };
+}
+
+/**
+ * Hook to list the Uniswap V3 positions of a wallet or of the agent contract
+ *
+ * Agent-held positions are listed read-only (see isAgentHeld): useIncreaseLiquidity, useDecreaseLiquidity
+ * and useCollectFees call the NonfungiblePositionManager from the wallet, and the agent contract has no
+ * entry point to manage positions it holds. Positions added through useAddLiquidity are minted to the wallet.
+ *
+ * Execution flow:
+ * 1. Read the owner's position NFT count from the NonfungiblePositionManager
+ * 2. Enumerate NFT ids with tokenOfOwnerByIndex in a single multicall
+ * 3. Load range, liquidity, in-range status and uncollected fees of every position
+ *
+ * @param owner Position owner (default: connected wallet, pass the agent address for agent-held positions)
+ */
+export function usePositions(owner?: `0x${string}`): PositionsResult {
+    const {address: userAddress} = useAccount();
+    const {address: agentAddress} = useAgentApi();
+    const {deployment} = useDexDeployment();
+    const positionManager = deployment?.positionManager;
+    const positionOwner = owner ?? userAddress;
+    const isAgentHeld = !!positionOwner && !!agentAddress && isAddressEqual(positionOwner, agentAddress);
+
+    // 1. Count position NFTs
+    const {data: balance, isLoading: isBalanceLoading, refetch: refetchBalance} = useReadContract({
+        address: positionManager,
+        abi: UNISWAP_V3_POSITION_MANAGER_ABI,
+        functionName: 'balanceOf',
+        args: positionOwner ? [positionOwner] : undefined,
+        query: {enabled: !!positionManager && !!positionOwner}
+    });
+
+    // 2. Enumerate position NFT ids
+    const {data: tokenIdData, isLoading: isTokenIdsLoading, refetch: refetchTokenIds} = useReadContracts({
+        contracts: Array.from({length: Number(balance ?? 0n)}, (_, i) => ({
+            address: positionManager!,
+            abi: UNISWAP_V3_POSITION_MANAGER_ABI,
+            functionName: 'tokenOfOwnerByIndex',
+            args: [positionOwner!, BigInt(i)]
+        } as const)),
+        query: {enabled: !!positionManager && !!positionOwner && !!balance}
+    });
+
+    const tokenIds = useMemo(
+        () => (tokenIdData ?? []).flatMap(result => typeof result.result === 'bigint' ? [result.result] : []),
+        [tokenIdData]
+    );
+
+    // 3. Load position details
+    const {
+        positions,
+        isLoading: isDetailsLoading,
+        error,
+        refetch: refetchDetails
+    } = usePositionDetails(tokenIds, positionOwner);
+
+    const refetch = useCallback(() => {
+        refetchBalance();
+        refetchTokenIds();
+        refetchDetails();
+    }, [refetchBalance, refetchTokenIds, refetchDetails]);
+
+    return {
+        positions: balance === 0n || !positionOwner ? [] : positions,
+        isLoading: isBalanceLoading || isTokenIdsLoading || isDetailsLoading,
+        isAgentHeld,
+        error,
+        refetch
+    };
+}
@@ -0,0 +1,162 @@
+import {useEffect, useState} from 'react';
+import {usePublicClient} from 'wagmi';
+import {UNISWAP_V3_QUOTER_V2_ABI} from '../abi/uniswapV3.abi';
+import type {SwapRoute} from './useSwapRoute';
+import type {TradeType} from './useSwapQuote';
+import {type AileyError, toAileyError} from '../utils/errors';
+
+/**
+ * Parameters for quoting a route on the QuoterV2 contract
+ */
+export interface QuoterQuoteParams {
+    /** Route to quote (usually the best route found by useSwapRoute) */
+    route: SwapRoute;
+    /** Swap direction */
+    tradeType: TradeType;
+    /** Input amount for exact-input, output amount for exact-output (in wei/smallest unit) */
+    amount: bigint;
+    /** QuoterV2 contract address */
+    quoterAddress: `0x${string}`;
+}
+
+/**
+ * Quote returned by the QuoterV2 contract
+ */
+export interface QuoterQuote {
+    /** Output amount for exact-input, input amount for exact-output */
+    amount: bigint;
+    /** Pool sqrt price after the swap, per hop in path order */
+    sqrtPriceX96After: bigint[];
+    /** Number of initialized ticks crossed, per hop in path order */
+    initializedTicksCrossed: number[];
+    /** Gas the swap is estimated to use */
+    gasEstimate: bigint;
+}
+
+/**
+ * Result object returned by useQuoterQuote hook
+ */
+export interface QuoterQuoteResult {
+    /** Quote from the QuoterV2 contract */
+    quote?: QuoterQuote;
+    /** Whether the quoter call for the current params is in progress */
+    isLoading: boolean;
+    /** READ_FAILED (or a decoded revert) if the quoter call failed */
+    error: AileyError | null;
+}
+
+/**
+ * Quoter result, with the params it was fetched for
+ */
+interface QuoterQuoteState {
+    params: QuoterQuoteParams;
+    quote?: QuoterQuote;
+    error: AileyError | null;
+}
+
+/**
+ * Hook to quote a swap route on the Uniswap QuoterV2 contract
+ *
+ * Execution flow:
+ * 1. Pick the quoter function from the route and trade direction
+ *    (quoteExactInputSingle / quoteExactInput / quoteExactOutputSingle / quoteExactOutput)
+ * 2. Simulate the call through eth_call (QuoterV2 functions are not view, they revert internally)
+ * 3. Normalize single-hop and multi-hop results into a QuoterQuote
+ */
+export function useQuoterQuote(params?: QuoterQuoteParams): QuoterQuoteResult {
+    const publicClient = usePublicClient();
+
+    const [state, setState] = useState<QuoterQuoteState | undefined>();
+
+    const {route, tradeType, amount, quoterAddress} = params || {};
+    const isEnabled = !!publicClient && !!route && !!tradeType && !!amount && amount > 0n && !!quoterAddress;
+
+    useEffect(() => {
+        let cancelled = false;
+
+        const fetchQuote = async () => {
+            if (!publicClient || !route || !tradeType || !amount || amount === 0n || !quoterAddress) {
+                setState(undefined);
+                return;
+            }
+
+            const quotedFor = {route, tradeType, amount, quoterAddress};
+            try {
+                const tokenIn = route.tokens[0].address as `0x${string}`;
+                const tokenOut = route.tokens[route.tokens.length - 1].address as `0x${string}`;
+                const isMultihop = route.fees.length > 1;
+                let result: QuoterQuote;
+
+                if (tradeType === 'exactOutput') {
+                    if (isMultihop) {
+                        const {result: [amountIn, sqrtPrices, ticksCrossed, gasEstimate]} = await publicClient.simulateContract({
+                            address: quoterAddress,
+                            abi: UNISWAP_V3_QUOTER_V2_ABI,
+                            functionName: 'quoteExactOutput',
+                            args: [route.path, amount]
+                        });
+                        // Exact-output paths are reversed, report hops in route order
+                        result = {
+                            amount: amountIn,
+                            sqrtPriceX96After: [...sqrtPrices].reverse(),
+                            initializedTicksCrossed: [...ticksCrossed].reverse(),
+                            gasEstimate
+                        };
+                    } else {
+                        const {result: [amountIn, sqrtPrice, ticksCrossed, gasEstimate]} = await publicClient.simulateContract({
+                            address: quoterAddress,
+                            abi: UNISWAP_V3_QUOTER_V2_ABI,
+                            functionName: 'quoteExactOutputSingle',
+                            args: [{tokenIn, tokenOut, amount, fee: route.fees[0], sqrtPriceLimitX96: 0n}]
+                        });
+                        result = {amount: amountIn, sqrtPriceX96After: [sqrtPrice], initializedTicksCrossed: [ticksCrossed], gasEstimate};
+                    }
+                } else if (isMultihop) {
+                    const {result: [amountOut, sqrtPrices, ticksCrossed, gasEstimate]} = await publicClient.simulateContract({
+                        address: quoterAddress,
+                        abi: UNISWAP_V3_QUOTER_V2_ABI,
+                        functionName: 'quoteExactInput',
+                        args: [route.path, amount]
+                    });
+                    result = {amount: amountOut, sqrtPriceX96After: [...sqrtPrices], initializedTicksCrossed: [...ticksCrossed], gasEstimate};
+                } else {
+                    const {result: [amountOut, sqrtPrice, ticksCrossed, gasEstimate]} = await publicClient.simulateContract({
+                        address: quoterAddress,
+                        abi: UNISWAP_V3_QUOTER_V2_ABI,
+                        functionName: 'quoteExactInputSingle',
+                        args: [{tokenIn, tokenOut, amountIn: amount, fee: route.fees[0], sqrtPriceLimitX96: 0n}]
+                    });
+                    result = {amount: amountOut, sqrtPriceX96After: [sqrtPrice], initializedTicksCrossed: [ticksCrossed], gasEstimate};
+                }
+
+                if (cancelled) return;
+                setState({params: quotedFor, quote: result, error: null});
+            } catch (e) {
+                if (cancelled) return;
+                console.error("Failed to fetch quoter quote:", e);
+                setState({
+                    params: quotedFor,
+                    error: toAileyError(e, {code: 'READ_FAILED', message: 'Failed to fetch quote from the quoter contract'})
+                });
+            }
+        };
+
+        fetchQuote();
+        return () => {
+            cancelled = true;
+        };
+    }, [publicClient, route, tradeType, amount, quoterAddress]);
+
+    // A result fetched for other params is stale, the new quote is still loading
+    const isCurrent = isEnabled && !!state &&
+        state.params.route === route &&
+        state.params.tradeType === tradeType &&
+        state.params.amount === amount &&
+        state.params.quoterAddress === quoterAddress;
+
+    return {
+        quote: isCurrent ? state.quote : undefined,
+        isLoading: isEnabled && !isCurrent,
+        error: isCurrent ? state.error : null
+    };
+}
@@ -0,0 +1,103 @@
+import {useCallback, useState} from 'react';
+import {useAccount, useConfig} from 'wagmi';
+import {writeContract} from 'wagmi/actions';
+import {erc20Abi} from 'viem';
+import {useAgentApi} from '../context/AgentApiContext';
+import {useTransactionFlow} from './useTransactionFlow';
+import {AileyError} from '../utils/errors';
+
+/**
+ * State machine states for revoking an approval
+ * Flow: idle -> revoking -> complete
+ * Can transition to error from any state if something fails
+ */
+export type RevokeApprovalStep = 'idle' | 'revoking' | 'complete' | 'error';
+
+/**
+ * Result object returned by useRevokeApproval hook
+ */
+export interface RevokeApprovalResult {
+    /** Reset the allowance of a token to zero (spender default: agent contract of the active chain) */
+    revoke: (tokenAddress: `0x${string}`, spender?: `0x${string}`) => void;
+    /** Reset state to initial values */
+    reset: () => void;
+    /** Send the revoke transaction again after a failure */
+    retry: () => void;
+    step: RevokeApprovalStep;
+    error: AileyError | null;
+    isPending: boolean;
+    isSuccess: boolean;
+    isError: boolean;
+    txHash?: `0x${string}`;
+}
+
+/**
+ * Hook to revoke a token approval granted to the agent contract
+ *
+ * Execution flow:
+ * 1. Resolve the spender (default: agent contract of the active chain)
+ * 2. Call approve(spender, 0) on the token
+ * 3. Wait for confirmation and update state accordingly
+ */
+export function useRevokeApproval(): RevokeApprovalResult {
+    const {address: agentAddress, chainId, error: chainError} = useAgentApi();
+    const {address: userAddress} = useAccount();
+    const config = useConfig();
+
+    const [error, setError] = useState<AileyError | null>(null);
+
+    const flow = useTransactionFlow<{ token: `0x${string}`; spender: `0x${string}` }>([
+        {
+            id: 'revoke',
+            type: 'approve',
+            params: state => ({token: state.token, spender: state.spender, amount: 0n}),
+            write: state => writeContract(config, {
+                address: state.token,
+                abi: erc20Abi,
+                chainId: chainId,
+                functionName: 'approve',
+                args: [state.spender, 0n]
+            })
+        }
+    ]);
+    const {start: startFlow, reset: resetFlow} = flow;
+
+    const revoke = useCallback((tokenAddress: `0x${string}`, spender?: `0x${string}`) => {
+        if (!userAddress) {
+            setError(new AileyError('WALLET_NOT_CONNECTED', 'Please connect your wallet'));
+            return;
+        }
+
+        const spenderAddress = spender ?? agentAddress;
+        if (!spenderAddress) {
+            setError(chainError);
+            return;
+        }
+
+        setError(null);
+        startFlow({token: tokenAddress, spender: spenderAddress});
+    }, [userAddress, agentAddress, chainError, startFlow]);
+
+    const reset = useCallback(() => {
+        setError(null);
+        resetFlow();
+    }, [resetFlow]);
+
+    let step: RevokeApprovalStep;
+    if (error || flow.status === 'error') step = 'error';
+    else if (flow.status === 'running') step = 'revoking';
+    else if (flow.status === 'complete') step = 'complete';
+    else step = 'idle';
+
+    return {
+        revoke,
+        reset,
+        retry: flow.retry,
+        step,
+        error: error ?? flow.error,
+        isPending: flow.isPending,
+        isSuccess: step === 'complete',
+        isError: step === 'error',
+        txHash: flow.hashes.revoke
+    };
+}
@@ -1,22 +1,79 @@
-import {useEffect, useState} from 'react';
-import {CurrencyAmount, Token} from "@uniswap/sdk-core";
-import JSBI from "jsbi";
-import {usePoolData} from './usePoolData';
+import {useMemo} from 'react';
+import {CurrencyAmount, Price, Token} from "@uniswap/sdk-core";
+import {Route} from "@uniswap/v3-sdk";
+import {
+    classifyPriceImpact,
+    computeTradePricing,
+    DEFAULT_PRICE_IMPACT_THRESHOLDS,
+    type PriceImpactSeverity,
+    type PriceImpactThresholds
+} from '../utils/priceImpact';
+import {type PoolSelection, type SwapRoute, useSwapRoute} from './useSwapRoute';
+import {type QuoterQuote, useQuoterQuote} from './useQuoterQuote';
+import {useDexDeployment} from './useDexDeployment';
+import {usePoolVolatility} from './usePoolVolatility';
+import {useAgentApi} from '../context/AgentApiContext';
+import {type CurrencyAddress, isNativeCurrency, toTokenAddress} from '../utils/native';
+import {
+    DEFAULT_SLIPPAGE_BPS,
+    maximumAmount,
+    minimumAmount,
+    resolveSlippageBps,
+    type SlippageSetting,
+    validateSlippageBps
+} from '../utils/transactionSettings';
+import {AileyError, toAileyError} from '../utils/errors';
+
+// Relative difference between local and quoter amounts that triggers a warning (1%)
+const DEFAULT_DIVERGENCE_THRESHOLD = 0.01;
+
+/**
+ * Swap direction
+ * - exactInput: the input amount is fixed, the output amount is quoted
+ * - exactOutput: the output amount is fixed, the required input amount is quoted
+ */
+export type TradeType = 'exactInput' | 'exactOutput';
+
+/**
+ * Where quote amounts come from
+ * - local: tick-by-tick simulation against pool state fetched by the SDK
+ * - quoter: eth_call simulation on the Uniswap QuoterV2 contract
+ * - both: use the quoter amount and cross-check it against the local simulation
+ */
+export type QuoteSource = 'local' | 'quoter' | 'both';
 
 /**
  * Parameters for getting a swap quote from Uniswap V3
  */
 export interface SwapQuoteParams {
-    /** Source token contract address */
-    tokenInAddress: `0x${string}`;
-    /** Destination token contract address */
-    tokenOutAddress: `0x${string}`;
-    /** Amount of input tokens (in wei/smallest unit) */
-    amountIn: bigint;
-    /** Maximum acceptable slippage as decimal (0.005 = 0.5%, 0.01 = 1%) */
-    slippageTolerance?: number;
-    /** Uniswap pool fee tier in basis points (100 = 0.01%, 500 = 0.05%, 3000 = 0.3%) */
+    /** Source token contract address, or 'native' to quote through the wrapped-native token */
+    tokenInAddress: CurrencyAddress;
+    /** Destination token contract address, or 'native' to quote through the wrapped-native token */
+    tokenOutAddress: CurrencyAddress;
+    /** Swap direction (default: 'exactInput') */
+    tradeType?: TradeType;
+    /** Amount of input tokens (in wei/smallest unit), required for exact-input quotes */
+    amountIn?: bigint;
+    /** Amount of output tokens to receive (in wei/smallest unit), required for exact-output quotes */
+    amountOut?: bigint;
+    /** Slippage tolerance in basis points (50 = 0.5%) or 'auto' (default: aileyConfig.transactionSettings, then 50) */
+    slippageBps?: SlippageSetting;
+    /** Restrict to a single Uniswap pool fee tier in basis points (100 = 0.01%, 500 = 0.05%, 3000 = 0.3%) */
     fee?: number;
+    /** Fee tiers to search for every hop (overrides fee, default: all standard tiers) */
+    feeTiers?: number[];
+    /** How to choose among fee tiers of the same pair (default: 'best-price') */
+    poolSelection?: PoolSelection;
+    /** Tokens the router may hop through when no better direct pool exists (e.g. WBNB, USDT) */
+    intermediateTokens?: `0x${string}`[];
+    /** Quote backend (default: 'local') */
+    quoteSource?: QuoteSource;
+    /** QuoterV2 contract address (defaults to the quoter of the active chain's DEX deployment) */
+    quoterAddress?: `0x${string}`;
+    /** Relative difference between local and quoter amounts that raises a warning, as decimal (default: 0.01 = 1%) */
+    divergenceThreshold?: number;
+    /** Price impact percentages at which severity becomes medium/high/blocked (default: 1/3/15) */
+    priceImpactThresholds?: Partial<PriceImpactThresholds>;
 }
 
 /**
@@ -25,108 +82,246 @@ export interface SwapQuoteParams {
 export interface SwapQuoteResult {
     /** Expected output amount before slippage (in wei/smallest unit) */
     estimatedAmountOut?: bigint;
-    /** Minimum acceptable output amount after slippage protection */
+    /** Minimum acceptable output amount after slippage protection (exact-input only) */
     amountOutMinimum?: bigint;
+    /** Expected input amount before slippage (in wei/smallest unit, exact-output only) */
+    estimatedAmountIn?: bigint;
+    /** Maximum input amount after slippage protection (exact-output only) */
+    amountInMaximum?: bigint;
+    /** Slippage tolerance applied to the amounts above, in basis points ('auto' resolved) */
+    slippageBps?: number;
+    /** LP fee paid on each hop, denominated in that hop's input token */
+    feeAmounts?: bigint[];
+    /** Price of the input token in output token terms after the trade executes */
+    priceAfter?: Price<Token, Token>;
+    /** Route mid price before the trade (input token in output token terms) */
+    midPrice?: Price<Token, Token>;
+    /** Average price the trade executes at (input token in output token terms) */
+    executionPrice?: Price<Token, Token>;
+    /** Execution price inverted (output token in input token terms) */
+    inversePrice?: Price<Token, Token>;
+    /** Price impact excluding LP fees, in percent (1.5 = 1.5%) */
+    priceImpact?: number;
+    /** Severity of the price impact according to the configured thresholds */
+    priceImpactSeverity?: PriceImpactSeverity;
+    /** LP fees across all hops, denominated in the input token (in wei/smallest unit) */
+    lpFeeAmount?: bigint;
     /** Whether quote calculation is in progress */
     isLoading: boolean;
-    /** Error message if quote calculation failed */
-    error: string | null;
-    /** Uniswap Token object for input token (includes decimals, symbol) */
+    /** POOL_NOT_FOUND / INSUFFICIENT_LIQUIDITY for unroutable trades, NOT_CONFIGURED or INVALID_INPUT for bad setup */
+    error: AileyError | null;
+    /** Uniswap Token object for input token (the wrapped-native token for native input) */
     tokenIn?: Token;
-    /** Uniswap Token object for output token (includes decimals, symbol) */
+    /** Uniswap Token object for output token (the wrapped-native token for native output) */
     tokenOut?: Token;
-    /** Address of the Uniswap V3 pool being used for the swap */
+    /** Address of the first Uniswap V3 pool being used for the swap */
     poolAddress?: `0x${string}`;
+    /** Full route (tokens, fees, pools and encoded path) used for the quote */
+    route?: SwapRoute;
+    /** Quote backend used for the amounts above */
+    quoteSource: QuoteSource;
+    /** Raw QuoterV2 result (ticks crossed, sqrt prices after, gas estimate) when the quoter is used */
+    quoterQuote?: QuoterQuote;
+    /** Relative difference between local and quoter amounts ('both' only) */
+    quoteDivergence?: number;
+    /** Warning message when local and quoter amounts differ beyond the threshold ('both' only) */
+    divergenceWarning?: string;
 }
 
 /**
  * Hook to get swap quotes from Uniswap V3
  *
  * Execution flow:
- * 1. Fetch token metadata (decimals, symbols) for both tokens
- * 2. Create Uniswap Token objects from the metadata
- * 3. Query Uniswap V3 Factory to find the pool address
- * 4. Fetch pool state (price, liquidity) from the pool contract
- * 5. Calculate estimated output and minimum output with slippage protection
+ * 1. Find the best direct or multi-hop route with useSwapRoute (simulated across initialized ticks),
+ *    routing the native coin through the chain's wrapped-native token
+ * 2. Optionally quote the same route on the QuoterV2 contract and cross-check both amounts
+ * 3. Report mid/execution prices, price impact with its severity, and LP fees
+ * 4. Calculate the quote with slippage protection ('auto' sizes the tolerance from the route's
+ *    recent volatility and the price impact):
+ *    - exactInput: estimated output and minimum output
+ *    - exactOutput: estimated input and maximum input
  */
-export function useSwapQuote(params?: SwapQuoteParams) {
+export function useSwapQuote(params?: SwapQuoteParams): SwapQuoteResult {
     const {
         tokenInAddress,
         tokenOutAddress,
+        tradeType = 'exactInput',
         amountIn,
-        slippageTolerance = 0.005,
-        fee = 100
+        amountOut,
+        slippageBps: slippageSetting,
+        fee,
+        feeTiers,
+        poolSelection,
+        intermediateTokens,
+        quoteSource = 'local',
+        quoterAddress: quoterAddressOverride,
+        divergenceThreshold = DEFAULT_DIVERGENCE_THRESHOLD,
+        priceImpactThresholds
     } = params || {};
 
-    const [quoteResult, setQuoteResult] = useState<{
-        estimatedAmountOut?: bigint;
-        amountOutMinimum?: bigint;
-    }>({});
+    const {deployment, chainId} = useDexDeployment();
+    const {transactionSettings} = useAgentApi();
+    const quoterAddress = quoterAddressOverride ?? deployment?.quoter;
+
+    // Pools only hold ERC-20 tokens, quote the native coin as its wrapped token
+    const routeTokenIn = tokenInAddress ? toTokenAddress(tokenInAddress, deployment?.wrappedNative) : undefined;
+    const routeTokenOut = tokenOutAddress ? toTokenAddress(tokenOutAddress, deployment?.wrappedNative) : undefined;
+    const isWrappedNativeMissing = (isNativeCurrency(tokenInAddress) || isNativeCurrency(tokenOutAddress)) &&
+        !deployment?.wrappedNative;
+
+    // Find the best route across fee tiers and intermediate tokens
+    const {
+        route,
+        estimatedAmountOut: localAmountOut,
+        estimatedAmountIn: localAmountIn,
+        feeAmounts,
+        priceAfter,
+        tokenIn,
+        tokenOut,
+        isLoading: isRouteLoading,
+        error: routeError
+    } = useSwapRoute(params && routeTokenIn && routeTokenOut ? {
+        tokenInAddress: routeTokenIn,
+        tokenOutAddress: routeTokenOut,
+        tradeType,
+        amountIn,
+        amountOut,
+        feeTiers: feeTiers ?? (fee ? [fee] : undefined),
+        poolSelection,
+        intermediateTokens
+    } : undefined);
 
-    // Use the common pool data hook
+    // Quote the selected route on the QuoterV2 contract
+    const isQuoterEnabled = quoteSource !== 'local';
+    const amount = tradeType === 'exactOutput' ? amountOut : amountIn;
     const {
-        tokenA,
-        tokenB,
-        pool,
-        poolAddress,
-        isLoading,
-        error
-    } = usePoolData(params && tokenInAddress && tokenOutAddress ? {
-        tokenAAddress: tokenInAddress,
-        tokenBAddress: tokenOutAddress,
-        fee
+        quote: quoterQuote,
+        isLoading: isQuoterLoading,
+        error: quoterError
+    } = useQuoterQuote(isQuoterEnabled && route && amount && quoterAddress ? {
+        route,
+        tradeType,
+        amount,
+        quoterAddress
     } : undefined);
 
-    // Determine which token is input and which is output based on addresses
-    const [tokenIn, tokenOut] = tokenA && tokenB ? (
-        tokenA.address.toLowerCase() === tokenInAddress?.toLowerCase()
-            ? [tokenA, tokenB]
-            : [tokenB, tokenA]
-    ) : [undefined, undefined];
-
-    // Calculate swap quote with slippage protection
-    useEffect(() => {
-        const calculateQuote = async () => {
-            if (!pool || !tokenIn || !tokenOut || !amountIn || amountIn === 0n) {
-                setQuoteResult({});
-                return;
-            }
-
-            try {
-                const inputAmount = CurrencyAmount.fromRawAmount(tokenIn, amountIn.toString());
-                const price = pool.priceOf(tokenIn);
-                const outputAmount = price.quote(inputAmount);
-
-                // Calculate minimum output with slippage protection
-                const slippageFactor = JSBI.BigInt(Math.floor(slippageTolerance * 10000));
-                const HUNDRED_PERCENT = JSBI.BigInt(10000);
-                const minAmountBI = JSBI.divide(
-                    JSBI.multiply(outputAmount.quotient, JSBI.subtract(HUNDRED_PERCENT, slippageFactor)),
-                    HUNDRED_PERCENT
-                );
-
-                setQuoteResult({
-                    estimatedAmountOut: BigInt(outputAmount.quotient.toString()),
-                    amountOutMinimum: BigInt(minAmountBI.toString())
-                });
-
-            } catch (e) {
-                console.error("Failed to calculate swap quote:", e);
-                setQuoteResult({});
-            }
+    // Pick the amounts to report and cross-check local against quoter
+    const localAmount = tradeType === 'exactOutput' ? localAmountIn : localAmountOut;
+    const quotedAmount = isQuoterEnabled ? quoterQuote?.amount ?? (quoteSource === 'both' ? localAmount : undefined) : localAmount;
+    const estimatedAmountOut = tradeType === 'exactInput' ? quotedAmount : undefined;
+    const estimatedAmountIn = tradeType === 'exactOutput' ? quotedAmount : undefined;
+
+    const {quoteDivergence, divergenceWarning} = useMemo(() => {
+        if (quoteSource !== 'both' || !localAmount || !quoterQuote || quoterQuote.amount === 0n) return {};
+
+        const difference = localAmount > quoterQuote.amount ? localAmount - quoterQuote.amount : quoterQuote.amount - localAmount;
+        const divergence = Number(difference * 1_000_000n / quoterQuote.amount) / 1_000_000;
+
+        return {
+            quoteDivergence: divergence,
+            divergenceWarning: divergence > divergenceThreshold
+                ? `Local quote differs from the on-chain quoter by ${(divergence * 100).toFixed(2)}%`
+                : undefined
         };
+    }, [quoteSource, localAmount, quoterQuote, divergenceThreshold]);
+
+    // Price breakdown and impact severity of the quoted trade
+    const impactMediumThreshold = priceImpactThresholds?.medium ?? DEFAULT_PRICE_IMPACT_THRESHOLDS.medium;
+    const impactHighThreshold = priceImpactThresholds?.high ?? DEFAULT_PRICE_IMPACT_THRESHOLDS.high;
+    const impactBlockedThreshold = priceImpactThresholds?.blocked ?? DEFAULT_PRICE_IMPACT_THRESHOLDS.blocked;
 
-        calculateQuote();
+    const pricing = useMemo(() => {
+        const tradeAmountIn = tradeType === 'exactOutput' ? estimatedAmountIn : amountIn;
+        const tradeAmountOut = tradeType === 'exactOutput' ? amountOut : estimatedAmountOut;
+        if (!route || !tradeAmountIn || !tradeAmountOut) return undefined;
 
-    }, [pool, tokenIn, tokenOut, amountIn, slippageTolerance]);
+        try {
+            const {tokens, pools, fees} = route;
+            const midPrice = new Route(pools, tokens[0], tokens[tokens.length - 1]).midPrice;
+            const tradePricing = computeTradePricing(
+                midPrice,
+                fees,
+                CurrencyAmount.fromRawAmount(tokens[0], tradeAmountIn.toString()),
+                CurrencyAmount.fromRawAmount(tokens[tokens.length - 1], tradeAmountOut.toString())
+            );
+
+            return {
+                ...tradePricing,
+                priceImpactSeverity: classifyPriceImpact(tradePricing.priceImpact, {
+                    medium: impactMediumThreshold,
+                    high: impactHighThreshold,
+                    blocked: impactBlockedThreshold
+                })
+            };
+        } catch (e) {
+            console.error("Failed to calculate price impact:", e);
+            return undefined;
+        }
+    }, [route, tradeType, amountIn, amountOut, estimatedAmountIn, estimatedAmountOut,
+        impactMediumThreshold, impactHighThreshold, impactBlockedThreshold]);
+
+    // Resolve the slippage tolerance, 'auto' waits for the route's oracle reads
+    const slippage = slippageSetting ?? transactionSettings?.slippageBps ?? DEFAULT_SLIPPAGE_BPS;
+    const slippageError = useMemo(() => {
+        try {
+            validateSlippageBps(slippage);
+            return null;
+        } catch (e) {
+            return toAileyError(e);
+        }
+    }, [slippage]);
+    const isAutoSlippage = slippage === 'auto';
+    const {volatilityBps, isLoading: isVolatilityLoading} = usePoolVolatility(route?.poolAddresses, isAutoSlippage);
+    const slippageBps = slippageError || (isAutoSlippage && isVolatilityLoading)
+        ? undefined
+        : resolveSlippageBps(slippage, {volatilityBps, priceImpact: pricing?.priceImpact});
+
+    const hasParams = !!params;
+    const isQuoterMissing = isQuoterEnabled && !quoterAddress;
+    const error = useMemo(() => {
+        if (!hasParams) return routeError;
+        if (isWrappedNativeMissing) {
+            return new AileyError('NOT_CONFIGURED', `Wrapped native token is not configured for chain ${chainId}. Add wrappedNative to aileyConfig.dex.`);
+        }
+        if (routeError) return routeError;
+        if (isQuoterMissing) return new AileyError('NOT_CONFIGURED', 'QuoterV2 address is not configured');
+        if (quoteSource === 'quoter' && quoterError) return quoterError;
+        return slippageError;
+    }, [hasParams, routeError, isWrappedNativeMissing, chainId, isQuoterMissing, quoteSource, quoterError, slippageError]);
+
+    // Apply slippage protection to the routed amounts
+    const {amountOutMinimum, amountInMaximum} = useMemo(() => {
+        if (slippageBps === undefined) return {};
+
+        if (tradeType === 'exactOutput') {
+            return estimatedAmountIn ? {amountInMaximum: maximumAmount(estimatedAmountIn, slippageBps)} : {};
+        }
+        return estimatedAmountOut ? {amountOutMinimum: minimumAmount(estimatedAmountOut, slippageBps)} : {};
+    }, [tradeType, estimatedAmountIn, estimatedAmountOut, slippageBps]);
 
     return {
-        estimatedAmountOut: quoteResult.estimatedAmountOut,
-        amountOutMinimum: quoteResult.amountOutMinimum,
-        isLoading,
+        estimatedAmountOut,
+        amountOutMinimum,
+        estimatedAmountIn,
+        amountInMaximum,
+        slippageBps,
+        feeAmounts,
+        priceAfter,
+        midPrice: pricing?.midPrice,
+        executionPrice: pricing?.executionPrice,
+        inversePrice: pricing?.inversePrice,
+        priceImpact: pricing?.priceImpact,
+        priceImpactSeverity: pricing?.priceImpactSeverity,
+        lpFeeAmount: pricing?.lpFeeAmount,
+        isLoading: isRouteLoading || isQuoterLoading || isVolatilityLoading,
         error,
         tokenIn,
         tokenOut,
-        poolAddress
+        poolAddress: route?.poolAddresses[0],
+        route,
+        quoteSource,
+        quoterQuote,
+        quoteDivergence,
+        divergenceWarning: divergenceWarning ?? (quoteSource === 'both' && quoterError ? quoterError.message : undefined)
     };
-}
\ No newline at end of file
+}
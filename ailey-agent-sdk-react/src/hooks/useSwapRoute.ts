@@ -0,0 +1,373 @@
+import {useEffect, useMemo, useState} from 'react';
+import {CurrencyAmount, Price, Token} from "@uniswap/sdk-core";
+import {Pool, Route} from "@uniswap/v3-sdk";
+import {FEE_TIERS} from '../constants/uniswap';
+import {encodeSwapPath} from '../utils/path';
+import {usePoolTicks} from './usePoolTicks';
+import {type PoolInfo, usePoolDiscovery} from './usePools';
+import type {TradeType} from './useSwapQuote';
+import {AileyError, PoolNotFoundError} from '../utils/errors';
+
+/**
+ * How the router picks among fee tiers of the same pair
+ * - best-price: quote every tier and keep the best result
+ * - deepest: only use the tier with the most in-range liquidity
+ */
+export type PoolSelection = 'best-price' | 'deepest';
+
+/**
+ * Parameters for finding the best swap route
+ */
+export interface SwapRouteParams {
+    /** Source token contract address */
+    tokenInAddress: `0x${string}`;
+    /** Destination token contract address */
+    tokenOutAddress: `0x${string}`;
+    /** Swap direction (default: 'exactInput') */
+    tradeType?: TradeType;
+    /** Amount of input tokens (in wei/smallest unit), required for exact-input routes */
+    amountIn?: bigint;
+    /** Amount of output tokens (in wei/smallest unit), required for exact-output routes */
+    amountOut?: bigint;
+    /** Tokens the router may hop through (e.g. WBNB, USDT) */
+    intermediateTokens?: `0x${string}`[];
+    /** Fee tiers to consider for every hop (default: all standard tiers) */
+    feeTiers?: number[];
+    /** How to choose among fee tiers of the same pair (default: 'best-price') */
+    poolSelection?: PoolSelection;
+}
+
+/**
+ * A swap path through one or more Uniswap V3 pools
+ */
+export interface SwapRoute {
+    /** Tokens along the path, from input token to output token */
+    tokens: Token[];
+    /** Fee tier of each hop */
+    fees: number[];
+    /** Pool used by each hop */
+    pools: Pool[];
+    /** Pool address of each hop */
+    poolAddresses: `0x${string}`[];
+    /** Path encoded for the agent contract (reversed for exact-output, as Uniswap expects) */
+    path: `0x${string}`;
+}
+
+/**
+ * Result object returned by useSwapRoute hook
+ */
+export interface SwapRouteResult {
+    /** Best route found for the requested trade */
+    route?: SwapRoute;
+    /** Expected output amount along the best route (exact-input only) */
+    estimatedAmountOut?: bigint;
+    /** Expected input amount along the best route (exact-output only) */
+    estimatedAmountIn?: bigint;
+    /** LP fee paid on each hop, denominated in that hop's input token */
+    feeAmounts?: bigint[];
+    /** Price of the input token in output token terms after the trade executes */
+    priceAfter?: Price<Token, Token>;
+    /** Uniswap Token object for input token */
+    tokenIn?: Token;
+    /** Uniswap Token object for output token */
+    tokenOut?: Token;
+    /** Whether route data is being loaded or the best route is being quoted for the current amount */
+    isLoading: boolean;
+    /** POOL_NOT_FOUND if no route exists, INSUFFICIENT_LIQUIDITY if the pools cannot fill the trade */
+    error: AileyError | null;
+}
+
+/**
+ * Candidate path before quoting
+ */
+interface CandidateRoute {
+    tokens: Token[];
+    hops: PoolInfo[];
+}
+
+function pairKey(tokenA: string, tokenB: string, fee: number): string {
+    const [a, b] = [tokenA.toLowerCase(), tokenB.toLowerCase()].sort();
+    return `${a}-${b}-${fee}`;
+}
+
+/**
+ * Simulated swap along a candidate route
+ */
+interface RouteQuote {
+    /** Output amount for exact-input, input amount for exact-output */
+    amount: bigint;
+    /** LP fee paid on each hop, in that hop's input token */
+    feeAmounts: bigint[];
+    /** Pool state of each hop after the swap */
+    poolsAfter: Pool[];
+}
+
+/**
+ * Best route found for a trade, with the trade it was quoted for
+ * route and quote are undefined when no candidate could fill the trade
+ */
+interface RouteQuoteResult {
+    tokenInAddress: `0x${string}`;
+    tokenOutAddress: `0x${string}`;
+    tradeType: TradeType;
+    amount: bigint;
+    route?: SwapRoute;
+    quote?: RouteQuote;
+}
+
+function lpFeeAmount(amountIn: CurrencyAmount<Token>, fee: number): bigint {
+    return BigInt(amountIn.quotient.toString()) * BigInt(fee) / 1_000_000n;
+}
+
+/**
+ * Quote a candidate route by simulating the swap through every pool's initialized ticks
+ * Exact-output routes are simulated backwards from the output token
+ */
+async function quoteRoute(candidate: CandidateRoute, tradeType: TradeType, amount: bigint): Promise<RouteQuote> {
+    const {tokens, hops} = candidate;
+    const feeAmounts: bigint[] = new Array(hops.length);
+    const poolsAfter: Pool[] = new Array(hops.length);
+
+    if (tradeType === 'exactOutput') {
+        let current = CurrencyAmount.fromRawAmount(tokens[tokens.length - 1], amount.toString());
+        for (let i = hops.length - 1; i >= 0; i--) {
+            const [inputAmount, poolAfter] = await hops[i].pool.getInputAmount(current);
+            feeAmounts[i] = lpFeeAmount(inputAmount, hops[i].fee);
+            poolsAfter[i] = poolAfter;
+            current = inputAmount;
+        }
+        return {amount: BigInt(current.quotient.toString()), feeAmounts, poolsAfter};
+    }
+
+    let current = CurrencyAmount.fromRawAmount(tokens[0], amount.toString());
+    for (let i = 0; i < hops.length; i++) {
+        const [outputAmount, poolAfter] = await hops[i].pool.getOutputAmount(current);
+        feeAmounts[i] = lpFeeAmount(current, hops[i].fee);
+        poolsAfter[i] = poolAfter;
+        current = outputAmount;
+    }
+    return {amount: BigInt(current.quotient.toString()), feeAmounts, poolsAfter};
+}
+
+/**
+ * Hook to find the best Uniswap V3 route between two tokens
+ *
+ * Execution flow:
+ * 1. Build candidate token pairs: direct pair plus tokenIn/tokenOut paired with every intermediate token
+ * 2. Discover every pool for those pairs across fee tiers with usePoolDiscovery
+ * 3. Keep pools with in-range liquidity (only the deepest tier per pair in 'deepest' mode)
+ *    and load their initialized ticks around the current price
+ * 4. Enumerate single-hop and two-hop paths through the existing pools
+ * 5. Simulate every path tick by tick and pick the best output (exact-input) or lowest input (exact-output)
+ */
+export function useSwapRoute(params?: SwapRouteParams): SwapRouteResult {
+    const {
+        tokenInAddress,
+        tokenOutAddress,
+        tradeType = 'exactInput',
+        amountIn,
+        amountOut,
+        poolSelection = 'best-price',
+    } = params || {};
+
+    // Serialize list params so inline arrays from callers do not retrigger queries
+    const intermediatesKey = (params?.intermediateTokens ?? []).join(',');
+    const feeTiersKey = (params?.feeTiers ?? FEE_TIERS).join(',');
+
+    // 1. Collect tokens and candidate pairs (tokenIn and tokenOut always come first)
+    const tokenAddresses = useMemo(() => {
+        if (!tokenInAddress || !tokenOutAddress) return [];
+
+        const intermediates = intermediatesKey ? intermediatesKey.split(',') as `0x${string}`[] : [];
+        const seen = new Set<string>();
+        return [tokenInAddress, tokenOutAddress, ...intermediates].filter(address => {
+            const key = address.toLowerCase();
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+    }, [tokenInAddress, tokenOutAddress, intermediatesKey]);
+
+    const fees = useMemo(() => feeTiersKey.split(',').map(Number), [feeTiersKey]);
+
+    const pairs = useMemo(() => {
+        if (tokenAddresses.length < 2) return [];
+
+        const [tIn, tOut, ...intermediates] = tokenAddresses;
+        const list: (readonly [`0x${string}`, `0x${string}`])[] = [[tIn, tOut]];
+        intermediates.forEach(mid => list.push([tIn, mid], [mid, tOut]));
+        return list;
+    }, [tokenAddresses]);
+
+    // 2. Discover every pool for the candidate pairs
+    const {
+        tokens,
+        pools: discoveredPools,
+        isLoading: isPoolsLoading,
+        isResolved,
+        error: discoveryError
+    } = usePoolDiscovery(tokenAddresses, pairs, fees);
+
+    // 3. Select usable pools and load their tick data
+    const usablePools = useMemo(() => {
+        // Pools without in-range liquidity cannot be quoted
+        const liquidPools = discoveredPools.filter(info => info.liquidity > 0n);
+        if (poolSelection !== 'deepest') return liquidPools;
+
+        const deepestByPair = new Map<string, PoolInfo>();
+        liquidPools.forEach(info => {
+            const key = pairKey(info.pool.token0.address, info.pool.token1.address, 0);
+            const deepest = deepestByPair.get(key);
+            if (!deepest || info.liquidity > deepest.liquidity) deepestByPair.set(key, info);
+        });
+        return [...deepestByPair.values()];
+    }, [discoveredPools, poolSelection]);
+
+    const {tickProviders, isLoading: isTicksLoading} = usePoolTicks(usablePools);
+
+    // Index tick-aware pools by pair and fee tier
+    const pools = useMemo(() => {
+        const map = new Map<string, PoolInfo>();
+
+        usablePools.forEach(info => {
+            const tickProvider = tickProviders.get(info.address.toLowerCase());
+            if (!tickProvider) return;
+
+            const {token0, token1} = info.pool;
+            const pool = new Pool(token0, token1, info.fee, info.sqrtPriceX96.toString(), info.liquidity.toString(), info.tick, tickProvider);
+            map.set(pairKey(token0.address, token1.address, info.fee), {...info, pool});
+        });
+        return map;
+    }, [usablePools, tickProviders]);
+
+    // 4. Enumerate single-hop and two-hop paths through existing pools
+    const candidateRoutes = useMemo(() => {
+        if (tokenAddresses.length < 2) return [];
+
+        const [tIn, tOut, ...intermediates] = tokenAddresses.map(address => tokens.get(address.toLowerCase()));
+        if (!tIn || !tOut) return [];
+
+        const routes: CandidateRoute[] = [];
+
+        fees.forEach(fee => {
+            const direct = pools.get(pairKey(tIn.address, tOut.address, fee));
+            if (direct) routes.push({tokens: [tIn, tOut], hops: [direct]});
+        });
+
+        intermediates.forEach(mid => {
+            if (!mid) return;
+            fees.forEach(feeIn => fees.forEach(feeOut => {
+                const first = pools.get(pairKey(tIn.address, mid.address, feeIn));
+                const second = pools.get(pairKey(mid.address, tOut.address, feeOut));
+                if (first && second) routes.push({tokens: [tIn, mid, tOut], hops: [first, second]});
+            }));
+        });
+
+        return routes;
+    }, [tokenAddresses, tokens, pools, fees]);
+
+    // 5. Quote every candidate and keep the best one
+    const amount = tradeType === 'exactOutput' ? amountOut : amountIn;
+    const [routeQuote, setRouteQuote] = useState<RouteQuoteResult | undefined>();
+
+    useEffect(() => {
+        let cancelled = false;
+
+        const findBestRoute = async () => {
+            if (!tokenInAddress || !tokenOutAddress || !amount || amount === 0n || candidateRoutes.length === 0) {
+                setRouteQuote(undefined);
+                return;
+            }
+
+            let best: { candidate: CandidateRoute; quote: RouteQuote } | undefined;
+            for (const candidate of candidateRoutes) {
+                try {
+                    const quote = await quoteRoute(candidate, tradeType, amount);
+                    if (quote.amount === 0n) continue;
+
+                    if (!best || (tradeType === 'exactOutput' ? quote.amount < best.quote.amount : quote.amount > best.quote.amount)) {
+                        best = {candidate, quote};
+                    }
+                } catch (e) {
+                    console.error("Failed to quote swap route:", e);
+                }
+            }
+
+            if (cancelled) return;
+            const quotedFor = {tokenInAddress, tokenOutAddress, tradeType, amount};
+            if (!best) {
+                setRouteQuote(quotedFor);
+                return;
+            }
+
+            const {tokens: routeTokens, hops} = best.candidate;
+            const fees = hops.map(hop => hop.fee);
+            const addresses = routeTokens.map(token => token.address as `0x${string}`);
+
+            setRouteQuote({
+                ...quotedFor,
+                route: {
+                    tokens: routeTokens,
+                    fees,
+                    pools: hops.map(hop => hop.pool),
+                    poolAddresses: hops.map(hop => hop.address),
+                    path: tradeType === 'exactOutput'
+                        ? encodeSwapPath([...addresses].reverse(), [...fees].reverse())
+                        : encodeSwapPath(addresses, fees)
+                },
+                quote: best.quote
+            });
+        };
+
+        findBestRoute();
+        return () => {
+            cancelled = true;
+        };
+    }, [candidateRoutes, tokenInAddress, tokenOutAddress, tradeType, amount]);
+
+    // A quote for other tokens, amount or direction is stale, the new one is still being computed
+    const isQuoteCurrent = !!routeQuote &&
+        routeQuote.tokenInAddress === tokenInAddress &&
+        routeQuote.tokenOutAddress === tokenOutAddress &&
+        routeQuote.tradeType === tradeType &&
+        routeQuote.amount === amount;
+    const route = isQuoteCurrent ? routeQuote.route : undefined;
+    const quote = isQuoteCurrent ? routeQuote.quote : undefined;
+    const isQuoteFailed = isQuoteCurrent && !route;
+    const isQuoting = !!amount && amount > 0n && candidateRoutes.length > 0 && !isQuoteCurrent;
+
+    const isLoading = isPoolsLoading || isTicksLoading || isQuoting;
+
+    // Post-trade price of the input token along the best route
+    const priceAfter = useMemo(() => {
+        if (!route || !quote) return undefined;
+
+        const {tokens: routeTokens} = route;
+        return new Route(quote.poolsAfter, routeTokens[0], routeTokens[routeTokens.length - 1]).midPrice;
+    }, [route, quote]);
+
+    // Only report a missing route once every lookup has completed
+    const hasParams = !!params;
+    const isRouteMissing = hasParams && !isLoading && isResolved && candidateRoutes.length === 0;
+    const error = useMemo(() => {
+        if (!hasParams) return null;
+        if (discoveryError) return discoveryError;
+        if (isRouteMissing) {
+            return new PoolNotFoundError(`No route found for the given tokens and fee tiers (${fees.map(fee => `${fee / 10000}%`).join(', ')})`);
+        }
+        if (isQuoteFailed) return new AileyError('INSUFFICIENT_LIQUIDITY', 'Insufficient liquidity for this trade');
+        return null;
+    }, [hasParams, discoveryError, isRouteMissing, fees, isQuoteFailed]);
+
+    return {
+        route,
+        estimatedAmountOut: tradeType === 'exactInput' ? quote?.amount : undefined,
+        estimatedAmountIn: tradeType === 'exactOutput' ? quote?.amount : undefined,
+        feeAmounts: quote?.feeAmounts,
+        priceAfter,
+        tokenIn: tokenInAddress ? tokens.get(tokenInAddress.toLowerCase()) : undefined,
+        tokenOut: tokenOutAddress ? tokens.get(tokenOutAddress.toLowerCase()) : undefined,
+        isLoading,
+        error
+    };
+}
@@ -1,90 +1,54 @@
-import {useEffect, useState} from 'react';
-import {useAccount, useReadContracts} from 'wagmi';
-import {erc20Abi, formatUnits} from 'viem';
+import {useMemo} from 'react';
+import {useTokenBalances} from './useTokenBalances';
+import type {CurrencyAddress} from '../utils/native';
+import {AileyError} from '../utils/errors';
 
 /**
  * Token balance information
  */
 export interface TokenBalances {
+    /** Balance formatted with the token's decimals */
     balance: string;
     balanceWei: bigint;
+    decimals?: number;
+    symbol?: string;
+    name?: string;
     isLoading: boolean;
-    error: string | null;
+    error: AileyError | null;
     refetch: () => void;
 }
 
 /**
- * Hook for checking token balances in real-time
+ * Hook for checking a token balance in real-time
+ *
+ * Single-token shorthand for useTokenBalances.
  *
  * Execution flow:
  * 1. Automatically starts balance checks when the component mounts
  * 2. Automatically updates balances when the wallet connection status changes
- * 3. Automatically refreshes balances every 5 seconds (optional)
+ * 3. Automatically refreshes balances every 5 seconds
  *
- * @param tokenAddress
+ * @param tokenAddress Token contract address, or 'native' for the native coin
  */
-export function useTokenBalance(tokenAddress: `0x${string}`): TokenBalances {
-    const {address: userAddress, isConnected} = useAccount();
-    const [error, setError] = useState<string | null>(null);
-
-    const {
-        data: balanceData,
-        isLoading,
-        refetch,
-        error: fetchError
-    } = useReadContracts({
-        contracts: [
-            {
-                address: tokenAddress,
-                abi: erc20Abi,
-                functionName: 'balanceOf',
-                args: userAddress ? [userAddress] : undefined
-            },
-        ],
-
-        query: {
-            enabled: !!userAddress && !!tokenAddress && isConnected,
-            staleTime: 1000,
-        }
-    });
-
-    useEffect(() => {
-        if (!tokenAddress) {
-            setError('The token address has not been set. Please check your environment variables.');
-            console.error('Missing token address:', {tokenAddress});
-        } else {
-            setError(null);
-        }
-    }, []);
+export function useTokenBalance(tokenAddress: CurrencyAddress): TokenBalances {
+    const tokens = useMemo(() => tokenAddress ? [tokenAddress] : [], [tokenAddress]);
+    const {balances, isLoading, error, refetch} = useTokenBalances(tokens);
 
-    useEffect(() => {
-        if (isConnected && !isLoading) {
-            const interval = setInterval(() => {
-                refetch();
-            }, 5000);
+    const token = balances[0];
 
-            return () => clearInterval(interval);
-        }
-    }, [isConnected, isLoading, refetch]);
-
-
-    useEffect(() => {
-        if (fetchError) {
-            console.error('Balance inquiry failed:', fetchError);
-            setError('Failed to retrieve your balance.');
-        }
-    }, [fetchError]);
-
-    const balanceWei = balanceData?.[0]?.result as bigint ?? 0n;
-    const balance = formatUnits(balanceWei, 18);
+    const missingAddressError = useMemo(
+        () => new AileyError('INVALID_INPUT', 'The token address has not been set. Please check your environment variables.'),
+        []
+    );
 
     return {
-        balance,
-        balanceWei,
+        balance: token?.balance ?? '0',
+        balanceWei: token?.balanceWei ?? 0n,
+        decimals: token?.decimals,
+        symbol: token?.symbol,
+        name: token?.name,
         isLoading,
-        error,
-        refetch: () => {
-            refetch();
-        }
+        error: tokenAddress ? error : missingAddressError,
+        refetch
     };
-}
\ No newline at end of file
+}
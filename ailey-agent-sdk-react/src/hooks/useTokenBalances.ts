@@ -0,0 +1,187 @@
+import {useCallback, useEffect, useMemo} from 'react';
+import {useAccount, useBalance, useChainId, useChains, useReadContracts} from 'wagmi';
+import {erc20Abi, formatUnits} from 'viem';
+import {type CurrencyAddress, isNativeCurrency} from '../utils/native';
+import {AileyError} from '../utils/errors';
+
+// Interval between balance refreshes while the wallet is connected
+const REFETCH_INTERVAL_MS = 5000;
+
+/**
+ * Balance and metadata of a single token
+ */
+export interface TokenBalance {
+    /** Token contract address, or 'native' for the native coin */
+    address: CurrencyAddress;
+    /** Whether this is the chain's native coin */
+    isNative: boolean;
+    /** Balance formatted with the token's decimals */
+    balance: string;
+    /** Raw balance (in smallest unit) */
+    balanceWei: bigint;
+    /** Token decimals (undefined until metadata is loaded) */
+    decimals?: number;
+    symbol?: string;
+    name?: string;
+}
+
+/**
+ * Result object returned by useTokenBalances hook
+ */
+export interface TokenBalancesResult {
+    /** Balances in the same order as the requested tokens */
+    balances: TokenBalance[];
+    isLoading: boolean;
+    /** READ_FAILED if balances or token details could not be read */
+    error: AileyError | null;
+    refetch: () => void;
+}
+
+/**
+ * Hook for checking balances of many tokens in real-time
+ *
+ * Execution flow:
+ * 1. Fetch decimals, symbol and name of every token in a single multicall (cached, metadata does not change)
+ * 2. Fetch balanceOf of every token for the connected wallet in a single multicall,
+ *    and the native coin balance with getBalance when requested
+ * 3. Format each balance with its token's decimals
+ * 4. Automatically refresh balances every 5 seconds while the wallet is connected
+ *
+ * @param tokenAddresses Token contract addresses, 'native' (or NATIVE_CURRENCY_ADDRESS) for the native coin
+ */
+export function useTokenBalances(tokenAddresses: readonly CurrencyAddress[]): TokenBalancesResult {
+    const {address: userAddress, isConnected} = useAccount();
+    const chainId = useChainId();
+    const chains = useChains();
+
+    // Callers usually pass inline arrays, key the queries by content instead of identity
+    const tokensKey = tokenAddresses.join(',');
+    const {tokens, erc20Tokens, hasNative} = useMemo(() => {
+        const tokens = (tokensKey ? tokensKey.split(',') : []) as CurrencyAddress[];
+        const erc20Tokens = tokens.filter(address => !isNativeCurrency(address)) as `0x${string}`[];
+        return {tokens, erc20Tokens, hasNative: erc20Tokens.length < tokens.length};
+    }, [tokensKey]);
+
+    // 1. Token metadata
+    const {
+        data: metadataData,
+        isLoading: isMetadataLoading,
+        error: metadataError
+    } = useReadContracts({
+        contracts: erc20Tokens.flatMap(address => [
+            {address, abi: erc20Abi, functionName: 'decimals'},
+            {address, abi: erc20Abi, functionName: 'symbol'},
+            {address, abi: erc20Abi, functionName: 'name'}
+        ] as const),
+        query: {
+            enabled: erc20Tokens.length > 0,
+            staleTime: Infinity
+        }
+    });
+
+    // 2. Balances of the connected wallet
+    const {
+        data: balanceData,
+        isLoading: isBalanceLoading,
+        refetch,
+        error: balanceError
+    } = useReadContracts({
+        contracts: erc20Tokens.map(address => ({
+            address,
+            abi: erc20Abi,
+            functionName: 'balanceOf',
+            args: userAddress ? [userAddress] : undefined
+        } as const)),
+        query: {
+            enabled: !!userAddress && isConnected && erc20Tokens.length > 0,
+            staleTime: 1000
+        }
+    });
+
+    const {
+        data: nativeBalanceData,
+        isLoading: isNativeBalanceLoading,
+        refetch: refetchNative,
+        error: nativeBalanceError
+    } = useBalance({
+        address: userAddress,
+        query: {
+            enabled: !!userAddress && isConnected && hasNative,
+            staleTime: 1000
+        }
+    });
+
+    const refetchBalances = useCallback(() => {
+        if (erc20Tokens.length > 0) refetch();
+        if (hasNative) refetchNative();
+    }, [erc20Tokens, hasNative, refetch, refetchNative]);
+
+    // 4. Refresh balances periodically
+    useEffect(() => {
+        if (isConnected && !isBalanceLoading && !isNativeBalanceLoading) {
+            const interval = setInterval(() => {
+                refetchBalances();
+            }, REFETCH_INTERVAL_MS);
+
+            return () => clearInterval(interval);
+        }
+    }, [isConnected, isBalanceLoading, isNativeBalanceLoading, refetchBalances]);
+
+    useEffect(() => {
+        const fetchError = metadataError || balanceError || nativeBalanceError;
+        if (fetchError) {
+            console.error('Balance inquiry failed:', fetchError);
+        }
+    }, [metadataError, balanceError, nativeBalanceError]);
+
+    // 3. Format balances with each token's decimals
+    const balances = useMemo(() => {
+        const nativeCurrency = chains.find(chain => chain.id === chainId)?.nativeCurrency;
+
+        return tokens.map(address => {
+            if (isNativeCurrency(address)) {
+                const balanceWei = nativeBalanceData?.value ?? 0n;
+                return {
+                    address,
+                    isNative: true,
+                    balance: formatUnits(balanceWei, nativeCurrency?.decimals ?? 18),
+                    balanceWei,
+                    decimals: nativeCurrency?.decimals ?? 18,
+                    symbol: nativeCurrency?.symbol,
+                    name: nativeCurrency?.name
+                };
+            }
+
+            const i = erc20Tokens.indexOf(address as `0x${string}`);
+            const decimals = metadataData?.[i * 3]?.result as number | undefined;
+            const balanceWei = balanceData?.[i]?.result as bigint ?? 0n;
+
+            return {
+                address,
+                isNative: false,
+                balance: decimals !== undefined ? formatUnits(balanceWei, decimals) : '0',
+                balanceWei,
+                decimals,
+                symbol: metadataData?.[i * 3 + 1]?.result as string | undefined,
+                name: metadataData?.[i * 3 + 2]?.result as string | undefined
+            };
+        });
+    }, [tokens, erc20Tokens, chains, chainId, metadataData, balanceData, nativeBalanceData]);
+
+    const error = useMemo(() => {
+        if (balanceError || nativeBalanceError) {
+            return new AileyError('READ_FAILED', 'Failed to retrieve your balance.', {cause: balanceError ?? nativeBalanceError});
+        }
+        if (metadataError) {
+            return new AileyError('READ_FAILED', 'Failed to retrieve token details.', {cause: metadataError});
+        }
+        return null;
+    }, [balanceError, nativeBalanceError, metadataError]);
+
+    return {
+        balances,
+        isLoading: isMetadataLoading || isBalanceLoading || isNativeBalanceLoading,
+        error,
+        refetch: refetchBalances
+    };
+}
@@ -0,0 +1,409 @@
+import {useCallback, useRef, useState} from 'react';
+import {type Config, useConfig} from 'wagmi';
+import {
+    getAccount,
+    readContract,
+    simulateContract,
+    type SimulateContractParameters,
+    waitForTransactionReceipt,
+    writeContract
+} from 'wagmi/actions';
+import {type Abi, type ContractFunctionArgs, type ContractFunctionName, erc20Abi, type TransactionReceipt} from 'viem';
+import {ERC20_ERRORS_ABI} from '../abi/erc20Errors.abi';
+import {useTransactionRecorder} from '../context/TransactionStoreContext';
+import type {AileyTransactionType} from '../utils/transactionStorage';
+import {type ApprovalStrategy, resolveApprovalAmount} from '../utils/approval';
+import {type AileyError, ContractRevertError, toAileyError} from '../utils/errors';
+import {type PermitSignature, readPermitKind, signTokenPermit} from './usePermitSignature';
+
+/**
+ * Overall state of a transaction flow
+ * Flow: idle -> running -> complete
+ * Can transition to error (retryable) or cancelled from running
+ */
+export type TransactionFlowStatus = 'idle' | 'running' | 'complete' | 'error' | 'cancelled';
+
+/**
+ * State of a single step
+ * Flow: pending -> checking -> (skipped | writing -> confirming -> complete | signing -> complete)
+ * Can transition to error from checking, writing, confirming or signing
+ */
+export type TransactionStepStatus =
+    'pending'
+    | 'checking'
+    | 'writing'
+    | 'confirming'
+    | 'signing'
+    | 'complete'
+    | 'skipped'
+    | 'error';
+
+/**
+ * One transaction of a flow, or an off-chain signature
+ *
+ * Callbacks receive the flow state: the state passed to start(), merged with the
+ * updates returned by the confirm() and sign() callbacks of earlier steps.
+ * A step defines either write or sign.
+ */
+export interface TransactionStep<TState> {
+    /** Step id, unique within the flow */
+    id: string;
+    /** Type the transaction is recorded with in the transaction history, steps without one are not recorded */
+    type?: AileyTransactionType;
+    /** Parameters recorded with the transaction in the transaction history */
+    params?: (state: TState) => Record<string, unknown>;
+    /** Precondition check, resolve false to skip the step (e.g. allowance already sufficient) */
+    check?: (state: TState) => boolean | Promise<boolean>;
+    /** Send the transaction and resolve with its hash */
+    write?: (state: TState) => Promise<`0x${string}`>;
+    /** Request a signature instead of a transaction, returned values are merged into the state of later steps */
+    sign?: (state: TState) => Promise<Partial<TState> | void>;
+    /** Handle the confirmed receipt, returned values are merged into the state of later steps */
+    confirm?: (receipt: TransactionReceipt, state: TState) => Partial<TState> | void | Promise<Partial<TState> | void>;
+}
+
+/**
+ * Result object returned by useTransactionFlow hook
+ */
+export interface TransactionFlowResult<TState> {
+    /** Run every step from the first one with the given state */
+    start: (state: TState) => void;
+    /** Run again from the step that failed, earlier steps are not repeated */
+    retry: () => void;
+    /**
+     * Stop the flow before its next step
+     * A transaction already sent to the wallet cannot be cancelled and may still be mined.
+     */
+    cancel: () => void;
+    /** Reset state to initial values */
+    reset: () => void;
+    status: TransactionFlowStatus;
+    /** Step being run, or the step that failed */
+    currentStepId?: string;
+    /** Status of every step, keyed by step id */
+    stepStatuses: Record<string, TransactionStepStatus>;
+    /** Transaction hash of every step that sent one, keyed by step id */
+    hashes: Record<string, `0x${string}`>;
+    /** Flow state including updates from confirmed steps */
+    state?: TState;
+    /** Failure of the failed step, classified by toAileyError */
+    error: AileyError | null;
+    isPending: boolean;
+    isSuccess: boolean;
+    isError: boolean;
+    isCancelled: boolean;
+}
+
+/**
+ * Step that approves an ERC-20 spender, skipped when the current allowance already covers the amount
+ * or skip is set (e.g. a permit was signed instead)
+ *
+ * @param id Step id
+ * @param config Wagmi config (from useConfig)
+ * @param resolve Token, owner, spender, amount needed and approval strategy (default: 'exact') for the flow state
+ * @param onAllowance Called with the current allowance once it is read
+ */
+export function approvalStep<TState>(
+    id: string,
+    config: Config,
+    resolve: (state: TState) => {
+        token: `0x${string}`;
+        owner: `0x${string}`;
+        spender: `0x${string}`;
+        amount: bigint;
+        strategy?: ApprovalStrategy;
+        chainId?: number;
+        skip?: boolean;
+    },
+    onAllowance?: (allowance: bigint, state: TState) => void
+): TransactionStep<TState> {
+    return {
+        id,
+        type: 'approve',
+        params: state => {
+            const {token, spender, amount, strategy} = resolve(state);
+            return {token, spender, amount: resolveApprovalAmount(amount, strategy)};
+        },
+        check: async state => {
+            const {token, owner, spender, amount, chainId, skip} = resolve(state);
+            if (skip) return false;
+            const allowance = await readContract(config, {
+                address: token,
+                abi: erc20Abi,
+                chainId: chainId,
+                functionName: 'allowance',
+                args: [owner, spender]
+            });
+            onAllowance?.(allowance, state);
+            return allowance < amount;
+        },
+        write: async state => {
+            const {token, spender, amount, strategy, chainId} = resolve(state);
+            return writeContract(config, {
+                address: token,
+                abi: erc20Abi,
+                chainId: chainId,
+                functionName: 'approve',
+                args: [spender, resolveApprovalAmount(amount, strategy)]
+            });
+        }
+    };
+}
+
+/**
+ * Step that signs an EIP-2612 or Permit2 permit for exactly the amount, replacing the approval step after it
+ *
+ * Skipped when disabled, when the current allowance already covers the amount or when the token supports
+ * neither permit type, the approval step then approves with a transaction as usual.
+ *
+ * @param id Step id
+ * @param config Wagmi config (from useConfig)
+ * @param resolve Token, owner, spender, amount needed and whether to try a permit (default: true) for the flow state
+ * @param onPermit Flow state updates holding the signed permit
+ */
+export function permitStep<TState>(
+    id: string,
+    config: Config,
+    resolve: (state: TState) => {
+        token: `0x${string}`;
+        owner: `0x${string}`;
+        spender: `0x${string}`;
+        amount: bigint;
+        chainId: number;
+        enabled?: boolean;
+    },
+    onPermit: (permit: PermitSignature, state: TState) => Partial<TState>
+): TransactionStep<TState> {
+    return {
+        id,
+        check: async state => {
+            const {token, owner, spender, amount, chainId, enabled = true} = resolve(state);
+            if (!enabled) return false;
+            const allowance = await readContract(config, {
+                address: token,
+                abi: erc20Abi,
+                chainId: chainId,
+                functionName: 'allowance',
+                args: [owner, spender]
+            });
+            if (allowance >= amount) return false;
+            return await readPermitKind(config, {token, owner, amount, chainId}) !== 'approve';
+        },
+        sign: async state => {
+            const permit = await signTokenPermit(config, resolve(state));
+            return permit ? onPermit(permit, state) : undefined;
+        }
+    };
+}
+
+/**
+ * Simulate a contract call and send it only if it would succeed
+ *
+ * A call that would revert throws its decoded revert (see toAileyError) before the wallet is prompted.
+ * Reverts are decoded against the ABI of the call and the OpenZeppelin ERC-20 errors, so failed token
+ * transfers inside the call surface as InsufficientBalanceError / InsufficientAllowanceError.
+ *
+ * @param config Wagmi config (from useConfig)
+ * @param parameters Contract call, as passed to writeContract
+ */
+export async function simulateAndWrite<
+    const abi extends Abi,
+    functionName extends ContractFunctionName<abi, 'nonpayable' | 'payable'>,
+    args extends ContractFunctionArgs<abi, 'nonpayable' | 'payable', functionName>
+>(
+    config: Config,
+    parameters: SimulateContractParameters<abi, functionName, args, Config>
+): Promise<`0x${string}`> {
+    let request;
+    try {
+        ({request} = await simulateContract(config, parameters as SimulateContractParameters));
+    } catch (e) {
+        throw toAileyError(e, {abi: [...parameters.abi, ...ERC20_ERRORS_ABI]});
+    }
+    return writeContract(config, request);
+}
+
+/**
+ * Hook to run a sequence of transactions with uniform progress, retry and cancellation
+ *
+ * Execution flow, for every step in order:
+ * 1. Run the precondition check → Skip the step if it resolves false
+ * 2. Signature steps: request the signature and merge the sign() updates into the flow state → Next step
+ * 3. Send the transaction and record its hash (and the transaction in the transaction history)
+ * 4. Wait for the receipt (reverted transactions fail the step)
+ * 5. Merge the confirm() updates into the flow state for later steps
+ *
+ * A failed step keeps the flow state, retry() resumes from that step.
+ * Steps may be redefined on every render, the latest definitions are always used.
+ *
+ * @param steps Steps of the flow, in execution order
+ */
+export function useTransactionFlow<TState>(steps: readonly TransactionStep<TState>[]): TransactionFlowResult<TState> {
+    const config = useConfig();
+    const recorder = useTransactionRecorder();
+
+    const [status, setStatus] = useState<TransactionFlowStatus>('idle');
+    const [currentStepId, setCurrentStepId] = useState<string | undefined>();
+    const [stepStatuses, setStepStatuses] = useState<Record<string, TransactionStepStatus>>({});
+    const [hashes, setHashes] = useState<Record<string, `0x${string}`>>({});
+    const [state, setState] = useState<TState | undefined>();
+    const [error, setError] = useState<AileyError | null>(null);
+
+    // Latest step definitions, so running flows see up-to-date closures
+    const stepsRef = useRef(steps);
+    stepsRef.current = steps;
+
+    // Incremented on start/cancel/reset, a run stops as soon as it is no longer the latest one
+    const runIdRef = useRef(0);
+    const stateRef = useRef<TState | undefined>();
+    const failedIndexRef = useRef(0);
+
+    const run = useCallback(async (fromIndex: number, initialState: TState) => {
+        const runId = ++runIdRef.current;
+        const isActive = () => runId === runIdRef.current;
+        const updateStep = (id: string, stepStatus: TransactionStepStatus) =>
+            setStepStatuses(prev => ({...prev, [id]: stepStatus}));
+
+        let flowState = initialState;
+        stateRef.current = flowState;
+        setState(flowState);
+        setError(null);
+        setStatus('running');
+
+        for (let i = fromIndex; i < stepsRef.current.length; i++) {
+            const step = stepsRef.current[i];
+            if (!isActive()) return;
+
+            setCurrentStepId(step.id);
+            try {
+                // 1. Precondition check
+                if (step.check) {
+                    updateStep(step.id, 'checking');
+                    const needed = await step.check(flowState);
+                    if (!isActive()) return;
+                    if (!needed) {
+                        updateStep(step.id, 'skipped');
+                        continue;
+                    }
+                }
+
+                // 2. Off-chain signature, no transaction to send
+                if (step.sign) {
+                    updateStep(step.id, 'signing');
+                    const signed = await step.sign(flowState);
+                    if (!isActive()) return;
+                    if (signed) {
+                        flowState = {...flowState, ...signed};
+                        stateRef.current = flowState;
+                        setState(flowState);
+                    }
+                    updateStep(step.id, 'complete');
+                    continue;
+                }
+                if (!step.write) {
+                    throw new Error(`Transaction step "${step.id}" defines neither write nor sign`);
+                }
+
+                // 3. Send the transaction
+                updateStep(step.id, 'writing');
+                const hash = await step.write(flowState);
+                const receiptPromise = waitForTransactionReceipt(config, {hash});
+
+                // Recorded even when the flow is cancelled meanwhile, the transaction may still be mined
+                const {address: account, chainId} = getAccount(config);
+                if (recorder && step.type && account && chainId) {
+                    recorder.addTransaction({
+                        hash,
+                        chainId,
+                        account,
+                        type: step.type,
+                        stepId: step.id,
+                        params: step.params?.(flowState),
+                        status: 'pending',
+                        submittedAt: Date.now()
+                    });
+                    receiptPromise
+                        .then(receipt => recorder.confirmTransaction(chainId, hash, receipt))
+                        .catch(() => undefined);     // Reported by the step below
+                }
+                if (!isActive()) return;
+                setHashes(prev => ({...prev, [step.id]: hash}));
+
+                // 4. Wait for confirmation
+                updateStep(step.id, 'confirming');
+                const receipt = await receiptPromise;
+                if (!isActive()) return;
+                if (receipt.status === 'reverted') {
+                    throw new ContractRevertError(`Transaction ${hash} reverted`);
+                }
+
+                // 5. Pass confirmed results on to later steps
+                const updates = await step.confirm?.(receipt, flowState);
+                if (!isActive()) return;
+                if (updates) {
+                    flowState = {...flowState, ...updates};
+                    stateRef.current = flowState;
+                    setState(flowState);
+                }
+                updateStep(step.id, 'complete');
+            } catch (e) {
+                if (!isActive()) return;
+                console.error(`Transaction step "${step.id}" failed:`, e);
+                failedIndexRef.current = i;
+                updateStep(step.id, 'error');
+                setError(toAileyError(e));
+                setStatus('error');
+                return;
+            }
+        }
+
+        setStatus('complete');
+    }, [config, recorder]);
+
+    const start = useCallback((initialState: TState) => {
+        setStepStatuses(Object.fromEntries(stepsRef.current.map(step => [step.id, 'pending' as const])));
+        setHashes({});
+        failedIndexRef.current = 0;
+        run(0, initialState);
+    }, [run]);
+
+    const retry = useCallback(() => {
+        if (status !== 'error' || stateRef.current === undefined) return;
+        run(failedIndexRef.current, stateRef.current);
+    }, [status, run]);
+
+    const cancel = useCallback(() => {
+        if (status !== 'running') return;
+        runIdRef.current++;
+        setStatus('cancelled');
+    }, [status]);
+
+    const reset = useCallback(() => {
+        runIdRef.current++;
+        stateRef.current = undefined;
+        failedIndexRef.current = 0;
+        setStatus('idle');
+        setCurrentStepId(undefined);
+        setStepStatuses({});
+        setHashes({});
+        setState(undefined);
+        setError(null);
+    }, []);
+
+    return {
+        start,
+        retry,
+        cancel,
+        reset,
+        status,
+        currentStepId,
+        stepStatuses,
+        hashes,
+        state,
+        error,
+        isPending: status === 'running',
+        isSuccess: status === 'complete',
+        isError: status === 'error',
+        isCancelled: status === 'cancelled'
+    };
+}
@@ -0,0 +1,138 @@
+import {useCallback, useState} from 'react';
+import {useAccount, useConfig} from 'wagmi';
+import {writeContract} from 'wagmi/actions';
+import {WRAPPED_NATIVE_ABI} from '../abi/wrappedNative.abi';
+import {useDexDeployment} from './useDexDeployment';
+import {useTransactionFlow} from './useTransactionFlow';
+import {AileyError} from '../utils/errors';
+
+/**
+ * State machine states for wrapping and unwrapping
+ * Flow: idle -> wrapping | unwrapping -> complete
+ * Can transition to error from any state if something fails
+ */
+export type WrapStep = 'idle' | 'wrapping' | 'unwrapping' | 'complete' | 'error';
+
+/**
+ * Result object returned by useWrapNative hook
+ */
+export interface WrapNativeResult {
+    /** Deposit native coin into the wrapped-native contract (in wei) */
+    wrap: (amount: bigint) => void;
+    /** Withdraw native coin from the wrapped-native contract (in wei) */
+    unwrap: (amount: bigint) => void;
+    /** Reset state to initial values */
+    reset: () => void;
+    /** Send the failed transaction again */
+    retry: () => void;
+    /** Wrapped-native token of the active chain */
+    wrappedNativeAddress?: `0x${string}`;
+    step: WrapStep;
+    error: AileyError | null;
+    isPending: boolean;
+    isSuccess: boolean;
+    isError: boolean;
+    txHash?: `0x${string}`;
+}
+
+/**
+ * Hook to wrap and unwrap the native coin (BNB <-> WBNB, ETH <-> WETH)
+ *
+ * Execution flow:
+ * 1. Resolve the wrapped-native contract from the active chain's DEX deployment
+ * 2. wrap(): call deposit() with the amount as value / unwrap(): call withdraw(amount)
+ * 3. Wait for confirmation and update state accordingly
+ */
+export function useWrapNative(): WrapNativeResult {
+    const {deployment, chainId} = useDexDeployment();
+    const {address: userAddress} = useAccount();
+    const config = useConfig();
+    const wrappedNativeAddress = deployment?.wrappedNative;
+
+    const [error, setError] = useState<AileyError | null>(null);
+
+    const flow = useTransactionFlow<{ kind: 'wrap' | 'unwrap'; token: `0x${string}`; amount: bigint }>([
+        {
+            id: 'wrap',
+            type: 'wrap',
+            params: state => ({token: state.token, amount: state.amount}),
+            check: state => state.kind === 'wrap',
+            write: state => writeContract(config, {
+                address: state.token,
+                abi: WRAPPED_NATIVE_ABI,
+                chainId: chainId,
+                functionName: 'deposit',
+                value: state.amount
+            })
+        },
+        {
+            id: 'unwrap',
+            type: 'unwrap',
+            params: state => ({token: state.token, amount: state.amount}),
+            check: state => state.kind === 'unwrap',
+            write: state => writeContract(config, {
+                address: state.token,
+                abi: WRAPPED_NATIVE_ABI,
+                chainId: chainId,
+                functionName: 'withdraw',
+                args: [state.amount]
+            })
+        }
+    ]);
+    const {start: startFlow, reset: resetFlow} = flow;
+
+    const validate = useCallback((amount: bigint) => {
+        if (!userAddress) {
+            setError(new AileyError('WALLET_NOT_CONNECTED', 'Please connect your wallet'));
+            return false;
+        }
+        if (!wrappedNativeAddress) {
+            setError(new AileyError('NOT_CONFIGURED', `Wrapped native token is not configured for chain ${chainId}. Add wrappedNative to aileyConfig.dex.`));
+            return false;
+        }
+        if (amount <= 0n) {
+            setError(new AileyError('INVALID_INPUT', 'Please enter a valid amount'));
+            return false;
+        }
+        return true;
+    }, [userAddress, wrappedNativeAddress, chainId]);
+
+    const wrap = useCallback((amount: bigint) => {
+        if (!validate(amount)) return;
+
+        setError(null);
+        startFlow({kind: 'wrap', token: wrappedNativeAddress!, amount});
+    }, [validate, wrappedNativeAddress, startFlow]);
+
+    const unwrap = useCallback((amount: bigint) => {
+        if (!validate(amount)) return;
+
+        setError(null);
+        startFlow({kind: 'unwrap', token: wrappedNativeAddress!, amount});
+    }, [validate, wrappedNativeAddress, startFlow]);
+
+    const reset = useCallback(() => {
+        setError(null);
+        resetFlow();
+    }, [resetFlow]);
+
+    let step: WrapStep;
+    if (error || flow.status === 'error') step = 'error';
+    else if (flow.status === 'running') step = flow.state?.kind === 'unwrap' ? 'unwrapping' : 'wrapping';
+    else if (flow.status === 'complete') step = 'complete';
+    else step = 'idle';
+
+    return {
+        wrap,
+        unwrap,
+        reset,
+        retry: flow.retry,
+        wrappedNativeAddress,
+        step,
+        error: error ?? flow.error,
+        isPending: flow.isPending,
+        isSuccess: step === 'complete',
+        isError: step === 'error',
+        txHash: flow.hashes[flow.state?.kind ?? 'wrap']
+    };
+}
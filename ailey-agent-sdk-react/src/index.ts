@@ -1,7 +1,152 @@
-export {useAgentApiContract} from './hooks/useAgentApiContract';
-export {useCallSwap, type SwapParams} from './hooks/useCallSwap';
-export {useSwapQuote, type SwapQuoteParams, type SwapQuoteResult} from './hooks/useSwapQuote';
-export {useAddLiquidity} from './hooks/useAddLiquidity';
-export {useTokenBalance} from './hooks/useTokenBalance';
-export {AileyProvider} from './context/AgentApiContext';
+export {useAgentApiContract, type AgentCall, type AgentCallArgs} from './hooks/useAgentApiContract';
+export {useAgentRead, type AgentReadArgs, type AgentReadResult} from './hooks/useAgentRead';
+export {useAgentInfo, type AgentInfoResult} from './hooks/useAgentInfo';
+export {useCallSwap, type SwapParams, type SwapStep} from './hooks/useCallSwap';
+export {
+    useSwapQuote,
+    type QuoteSource,
+    type SwapQuoteParams,
+    type SwapQuoteResult,
+    type TradeType
+} from './hooks/useSwapQuote';
+export {useQuoterQuote, type QuoterQuote, type QuoterQuoteParams, type QuoterQuoteResult} from './hooks/useQuoterQuote';
+export {useSwapRoute, type PoolSelection, type SwapRoute, type SwapRouteParams, type SwapRouteResult} from './hooks/useSwapRoute';
+export {usePools, type PoolInfo, type PoolsResult} from './hooks/usePools';
+export {useAddLiquidity, type AddLiquidityParams, type AddLiquidityStep} from './hooks/useAddLiquidity';
+export {useCreatePool, type CreatePoolParams, type CreatePoolStep} from './hooks/useCreatePool';
+export {usePositions, type PositionInfo, type PositionsResult} from './hooks/usePositions';
+export {
+    useIncreaseLiquidity,
+    type IncreaseLiquidityParams,
+    type IncreaseLiquidityStep
+} from './hooks/useIncreaseLiquidity';
+export {
+    useDecreaseLiquidity,
+    type DecreaseLiquidityParams,
+    type DecreaseLiquidityStep
+} from './hooks/useDecreaseLiquidity';
+export {
+    useCollectFees,
+    type CollectFeesParams,
+    type CollectFeesResult,
+    type CollectFeesStep
+} from './hooks/useCollectFees';
+export {useLiquidityQuote, type LiquidityQuoteParams, type LiquidityQuoteResult} from './hooks/useLiquidityQuote';
+export {useTokenBalance, type TokenBalances} from './hooks/useTokenBalance';
+export {useTokenBalances, type TokenBalance, type TokenBalancesResult} from './hooks/useTokenBalances';
+export {
+    approvalStep,
+    permitStep,
+    simulateAndWrite,
+    useTransactionFlow,
+    type TransactionFlowResult,
+    type TransactionFlowStatus,
+    type TransactionStep,
+    type TransactionStepStatus
+} from './hooks/useTransactionFlow';
+export {
+    GAS_FALLBACKS,
+    useFeeEstimate,
+    type FeeData,
+    type FeeEstimate,
+    type FeeEstimateResult,
+    type PlannedTransaction,
+    type TransactionGasEstimate
+} from './hooks/useFeeEstimate';
+export {
+    useAileyTransactions,
+    type AileyTransactionsFilter,
+    type AileyTransactionsResult
+} from './hooks/useAileyTransactions';
+export {useAllowances, type AllowancesResult, type TokenAllowance} from './hooks/useAllowances';
+export {
+    readPermitKind,
+    signTokenPermit,
+    toAgentPermit,
+    usePermitSignature,
+    type AgentPermitData,
+    type PermitKind,
+    type PermitParams,
+    type PermitSignature,
+    type PermitSignatureResult
+} from './hooks/usePermitSignature';
+export {useRevokeApproval, type RevokeApprovalResult, type RevokeApprovalStep} from './hooks/useRevokeApproval';
+export {useWrapNative, type WrapNativeResult, type WrapStep} from './hooks/useWrapNative';
+export {useDexDeployment, type DexDeploymentResult} from './hooks/useDexDeployment';
+export {useAileyChain, type AileyChainResult} from './hooks/useAileyChain';
+export {
+    AileyProvider,
+    useAgentApi,
+    type AgentApi,
+    type AgentApiAbi,
+    type AgentDeployment,
+    type DexDeployment
+} from './context/AgentApiContext';
+export {AGENT_API_ABI} from './abi/agentApi.abi';
+export {isPositiveAmount, toRawAmount, type AmountInput} from './utils/amount';
+export {
+    isUnlimitedAllowance,
+    resolveApprovalAmount,
+    validateApprovalStrategy,
+    type ApprovalStrategy
+} from './utils/approval';
+export {encodeSwapPath} from './utils/path';
+export {
+    parsePrice,
+    priceToSqrtPriceX96,
+    resolvePriceRange,
+    type PriceRange,
+    type ResolvedPriceRange
+} from './utils/priceRange';
+export {
+    isNativeCurrency,
+    NATIVE_CURRENCY,
+    NATIVE_CURRENCY_ADDRESS,
+    type CurrencyAddress
+} from './utils/native';
+export {
+    AileyError,
+    ContractRevertError,
+    DeadlineExpiredError,
+    InsufficientAllowanceError,
+    InsufficientBalanceError,
+    PoolNotFoundError,
+    SlippageExceededError,
+    toAileyError,
+    UserRejectedError,
+    WrongChainError,
+    type AileyErrorCode
+} from './utils/errors';
+export {
+    deserializeTransactions,
+    indexedDBTransactionStorage,
+    localStorageTransactionStorage,
+    serializeTransactions,
+    type AileyTransaction,
+    type AileyTransactionStatus,
+    type AileyTransactionType,
+    type TransactionReceiptSummary,
+    type TransactionStorage
+} from './utils/transactionStorage';
+export {
+    computeAutoSlippageBps,
+    DEFAULT_DEADLINE_MINUTES,
+    DEFAULT_SLIPPAGE_BPS,
+    MAX_DEADLINE_MINUTES,
+    MAX_SLIPPAGE_BPS,
+    resolveTransactionSettings,
+    TransactionSettingsError,
+    validateDeadlineMinutes,
+    validateSlippageBps,
+    type AutoSlippageInputs,
+    type ResolvedTransactionSettings,
+    type SlippageSetting,
+    type TransactionSettings
+} from './utils/transactionSettings';
+export {
+    classifyPriceImpact,
+    DEFAULT_PRICE_IMPACT_THRESHOLDS,
+    type PriceImpactSeverity,
+    type PriceImpactThresholds
+} from './utils/priceImpact';
 export * from 'wagmi';
\ No newline at end of file
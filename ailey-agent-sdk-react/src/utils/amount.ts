@@ -0,0 +1,31 @@
+import {parseUnits} from 'viem';
+
+/**
+ * Token amount as a raw bigint (smallest unit) or a human-readable decimal string (e.g. "0.03")
+ */
+export type AmountInput = bigint | string;
+
+// Plain decimal notation only, parseUnits does not accept exponents or signs
+const DECIMAL_AMOUNT_PATTERN = /^(\d+\.?\d*|\.\d+)$/;
+
+/**
+ * Whether an amount is a well-formed, strictly positive value
+ */
+export function isPositiveAmount(amount: AmountInput): boolean {
+    if (typeof amount === 'bigint') return amount > 0n;
+
+    const trimmed = amount.trim();
+    return DECIMAL_AMOUNT_PATTERN.test(trimmed) && /[1-9]/.test(trimmed);
+}
+
+/**
+ * Convert an amount to its raw bigint value using the token's decimals
+ *
+ * Raw bigint amounts are returned as is, strings are parsed with the token's decimals.
+ *
+ * @param amount Raw or human-readable amount
+ * @param decimals Token decimals
+ */
+export function toRawAmount(amount: AmountInput, decimals: number): bigint {
+    return typeof amount === 'bigint' ? amount : parseUnits(amount.trim(), decimals);
+}
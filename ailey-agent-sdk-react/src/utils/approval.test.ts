@@ -0,0 +1,56 @@
+import {describe, expect, it} from 'vitest';
+import {maxUint256} from 'viem';
+import {type ApprovalStrategy, isUnlimitedAllowance, resolveApprovalAmount, validateApprovalStrategy} from './approval';
+import {AileyError} from './errors';
+
+describe('resolveApprovalAmount', () => {
+    it('approves exactly the amount needed by default', () => {
+        expect(resolveApprovalAmount(1_000n)).toBe(1_000n);
+        expect(resolveApprovalAmount(1_000n, 'exact')).toBe(1_000n);
+    });
+
+    it('approves the maximum uint256 for unlimited', () => {
+        expect(resolveApprovalAmount(1_000n, 'unlimited')).toBe(maxUint256);
+    });
+
+    it('approves a fixed amount covering the amount needed', () => {
+        expect(resolveApprovalAmount(1_000n, {amount: 5_000n})).toBe(5_000n);
+        expect(resolveApprovalAmount(1_000n, {amount: 1_000n})).toBe(1_000n);
+    });
+
+    it('rejects a fixed amount below the amount needed', () => {
+        expect(() => resolveApprovalAmount(1_000n, {amount: 999n})).toThrow(AileyError);
+        expect(() => resolveApprovalAmount(1_000n, {amount: 999n})).toThrow('below the 1000 the transaction needs');
+    });
+});
+
+describe('validateApprovalStrategy', () => {
+    it('accepts exact, unlimited and positive amounts', () => {
+        expect(validateApprovalStrategy()).toBe('exact');
+        expect(validateApprovalStrategy('unlimited')).toBe('unlimited');
+        expect(validateApprovalStrategy({amount: 1n})).toEqual({amount: 1n});
+    });
+
+    it('only checks the amount needed when it is known', () => {
+        expect(validateApprovalStrategy({amount: 10n})).toEqual({amount: 10n});
+        expect(() => validateApprovalStrategy({amount: 10n}, 11n)).toThrow(AileyError);
+    });
+
+    it.each([
+        ['a zero amount', {amount: 0n}],
+        ['a negative amount', {amount: -1n}],
+        ['a number amount', {amount: 100}],
+        ['an unknown name', 'infinite']
+    ])('rejects %s with INVALID_INPUT', (_, strategy) => {
+        expect(() => validateApprovalStrategy(strategy as unknown as ApprovalStrategy))
+            .toThrow(expect.objectContaining({code: 'INVALID_INPUT'}));
+    });
+});
+
+describe('isUnlimitedAllowance', () => {
+    it('treats allowances above half the maximum uint256 as unlimited', () => {
+        expect(isUnlimitedAllowance(maxUint256)).toBe(true);
+        expect(isUnlimitedAllowance(maxUint256 - 1_000n)).toBe(true);
+        expect(isUnlimitedAllowance(10n ** 30n)).toBe(false);
+    });
+});
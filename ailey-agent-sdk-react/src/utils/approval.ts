@@ -0,0 +1,54 @@
+import {maxUint256} from 'viem';
+import {AileyError} from './errors';
+
+/**
+ * How much to approve when the current allowance does not cover a transaction
+ *
+ * - exact: only the amount the transaction needs, every transaction approves again
+ * - unlimited: the maximum uint256, later transactions skip the approval
+ * - amount: a fixed allowance, must cover the amount the transaction needs
+ */
+export type ApprovalStrategy = 'exact' | 'unlimited' | { amount: bigint };
+
+// Allowances above this are reported as unlimited (some tokens decrease even a maxUint256 allowance on use)
+const UNLIMITED_ALLOWANCE_THRESHOLD = maxUint256 / 2n;
+
+/**
+ * Check an approval strategy is 'exact', 'unlimited' or a positive amount covering what the transaction needs
+ *
+ * @param strategy Approval strategy (default: 'exact')
+ * @param amountNeeded Amount the transaction pulls, when already known (in wei/smallest unit)
+ * @throws AileyError INVALID_INPUT
+ */
+export function validateApprovalStrategy(strategy: ApprovalStrategy = 'exact', amountNeeded?: bigint): ApprovalStrategy {
+    if (strategy === 'exact' || strategy === 'unlimited') return strategy;
+
+    if (typeof strategy !== 'object' || typeof strategy.amount !== 'bigint' || strategy.amount <= 0n) {
+        throw new AileyError('INVALID_INPUT', `Approval strategy must be 'exact', 'unlimited' or a positive { amount }`);
+    }
+    if (amountNeeded !== undefined && strategy.amount < amountNeeded) {
+        throw new AileyError('INVALID_INPUT', `Approval amount ${strategy.amount} is below the ${amountNeeded} the transaction needs`);
+    }
+    return strategy;
+}
+
+/**
+ * Amount to approve for a transaction under an approval strategy
+ *
+ * @param amountNeeded Amount the transaction pulls (in wei/smallest unit)
+ * @param strategy Approval strategy (default: 'exact')
+ * @throws AileyError INVALID_INPUT if the strategy is invalid or its amount is below amountNeeded
+ */
+export function resolveApprovalAmount(amountNeeded: bigint, strategy: ApprovalStrategy = 'exact'): bigint {
+    const validStrategy = validateApprovalStrategy(strategy, amountNeeded);
+    if (validStrategy === 'exact') return amountNeeded;
+    if (validStrategy === 'unlimited') return maxUint256;
+    return validStrategy.amount;
+}
+
+/**
+ * Whether an allowance is large enough to be treated as unlimited
+ */
+export function isUnlimitedAllowance(allowance: bigint): boolean {
+    return allowance >= UNLIMITED_ALLOWANCE_THRESHOLD;
+}
@@ -0,0 +1,109 @@
+import {describe, expect, it} from 'vitest';
+import {
+    ChainMismatchError,
+    ContractFunctionExecutionError,
+    ContractFunctionRevertedError,
+    encodeErrorResult,
+    InsufficientFundsError,
+    parseAbi,
+    UserRejectedRequestError
+} from 'viem';
+import {bsc} from 'viem/chains';
+import {ERC20_ERRORS_ABI} from '../abi/erc20Errors.abi';
+import {
+    AileyError,
+    ContractRevertError,
+    DeadlineExpiredError,
+    InsufficientAllowanceError,
+    InsufficientBalanceError,
+    SlippageExceededError,
+    toAileyError,
+    UserRejectedError,
+    WrongChainError
+} from './errors';
+
+const ACCOUNT = '0x1111111111111111111111111111111111111111';
+const CONTRACT = '0x2222222222222222222222222222222222222222';
+const AGENT_ERRORS_ABI = parseAbi(['error NotAuthorized(address caller)']);
+const REVERT_STRING_ABI = parseAbi(['error Error(string)']);
+
+// Error thrown by writeContract/simulateContract for a call that reverted with the given data
+function revertedCall(data: `0x${string}`, abi: readonly unknown[] = []) {
+    const reverted = new ContractFunctionRevertedError({abi: abi as never, data, functionName: 'callSwap'});
+    return new ContractFunctionExecutionError(reverted, {abi: [], functionName: 'callSwap', contractAddress: CONTRACT});
+}
+
+function revertString(reason: string) {
+    return revertedCall(encodeErrorResult({abi: REVERT_STRING_ABI, errorName: 'Error', args: [reason]}), REVERT_STRING_ABI);
+}
+
+describe('toAileyError', () => {
+    it('returns AileyErrors unchanged', () => {
+        const error = new AileyError('INVALID_INPUT', 'Bad amount');
+        expect(toAileyError(error)).toBe(error);
+    });
+
+    it('classifies wallet rejections', () => {
+        const viemError = new ContractFunctionExecutionError(
+            new UserRejectedRequestError(new Error('User rejected the request.')),
+            {abi: [], functionName: 'approve'}
+        );
+        expect(toAileyError(viemError)).toBeInstanceOf(UserRejectedError);
+        expect(toAileyError({code: 4001, message: 'denied'})).toMatchObject({code: 'USER_REJECTED'});
+        expect(toAileyError(new Error('MetaMask Tx Signature: User denied transaction signature.')))
+            .toBeInstanceOf(UserRejectedError);
+    });
+
+    it('classifies chain mismatches and missing gas funds', () => {
+        expect(toAileyError(new ChainMismatchError({chain: bsc, currentChainId: 1}))).toBeInstanceOf(WrongChainError);
+        expect(toAileyError(new InsufficientFundsError())).toBeInstanceOf(InsufficientBalanceError);
+    });
+
+    it.each([
+        ['Too little received', SlippageExceededError],
+        ['Too much requested', SlippageExceededError],
+        ['Price slippage check', SlippageExceededError],
+        ['Transaction too old', DeadlineExpiredError],
+        ['ERC20: insufficient allowance', InsufficientAllowanceError],
+        ['ERC20: transfer amount exceeds balance', InsufficientBalanceError]
+    ])('classifies the revert string "%s"', (reason, errorClass) => {
+        expect(toAileyError(revertString(reason))).toBeInstanceOf(errorClass);
+    });
+
+    it('decodes OpenZeppelin ERC-20 custom errors', () => {
+        const data = encodeErrorResult({abi: ERC20_ERRORS_ABI, errorName: 'ERC20InsufficientBalance', args: [ACCOUNT, 5n, 10n]});
+        const error = toAileyError(revertedCall(data, ERC20_ERRORS_ABI));
+        expect(error).toBeInstanceOf(InsufficientBalanceError);
+        expect(error).toMatchObject({available: 5n, required: 10n});
+    });
+
+    it('keeps other revert strings as ContractRevertError', () => {
+        const error = toAileyError(revertString('Not owner'));
+        expect(error).toBeInstanceOf(ContractRevertError);
+        expect(error).toMatchObject({code: 'CONTRACT_REVERT', reason: 'Not owner', message: 'Execution reverted: Not owner'});
+    });
+
+    it('decodes raw revert data with the abi option', () => {
+        const data = encodeErrorResult({abi: AGENT_ERRORS_ABI, errorName: 'NotAuthorized', args: [ACCOUNT]});
+
+        const undecoded = toAileyError(revertedCall(data));
+        expect(undecoded).toBeInstanceOf(ContractRevertError);
+        expect((undecoded as ContractRevertError).errorName).toBeUndefined();
+
+        const decoded = toAileyError(revertedCall(data), {abi: AGENT_ERRORS_ABI});
+        expect(decoded).toMatchObject({
+            code: 'CONTRACT_REVERT',
+            errorName: 'NotAuthorized',
+            args: [ACCOUNT],
+            message: 'Execution reverted with NotAuthorized'
+        });
+    });
+
+    it('falls back to the given code and message for other errors', () => {
+        const cause = new Error('fetch failed');
+        expect(toAileyError(cause)).toMatchObject({code: 'UNKNOWN', message: 'fetch failed', cause});
+        expect(toAileyError(cause, {code: 'READ_FAILED', message: 'Failed to load pool'}))
+            .toMatchObject({code: 'READ_FAILED', message: 'Failed to load pool', cause});
+        expect(toAileyError('boom')).toMatchObject({code: 'UNKNOWN', message: 'boom'});
+    });
+});
@@ -0,0 +1,263 @@
+import {
+    type Abi,
+    BaseError,
+    ChainMismatchError,
+    ContractFunctionRevertedError,
+    decodeErrorResult,
+    InsufficientFundsError,
+    UserRejectedRequestError
+} from 'viem';
+
+/**
+ * Machine-readable failure categories, stable across releases so apps can localize and branch on them
+ *
+ * - USER_REJECTED: the wallet rejected the transaction, signature or chain switch
+ * - WALLET_NOT_CONNECTED: the action needs a connected wallet
+ * - WRONG_CHAIN: the wallet is on a chain without an agent deployment or the wrong chain for the request
+ * - NOT_CONFIGURED: a contract address is missing from aileyConfig for the active chain
+ * - INVALID_INPUT: a parameter is missing or out of range
+ * - INSUFFICIENT_BALANCE: the wallet holds less than the action needs
+ * - INSUFFICIENT_ALLOWANCE: the spender may not pull the amount the action needs
+ * - INSUFFICIENT_LIQUIDITY: the pools cannot fill the trade
+ * - POOL_NOT_FOUND: no pool or route exists for the tokens and fee tiers
+ * - POOL_EXISTS: the pool to create already exists
+ * - SLIPPAGE_EXCEEDED: the price moved beyond the slippage tolerance before the transaction was mined
+ * - DEADLINE_EXPIRED: the transaction was mined after its deadline
+ * - CONTRACT_REVERT: any other revert, with the decoded custom error when the ABI declares it
+ * - READ_FAILED: a contract read or RPC request failed
+ * - UNKNOWN: anything else
+ */
+export type AileyErrorCode =
+    'USER_REJECTED'
+    | 'WALLET_NOT_CONNECTED'
+    | 'WRONG_CHAIN'
+    | 'NOT_CONFIGURED'
+    | 'INVALID_INPUT'
+    | 'INSUFFICIENT_BALANCE'
+    | 'INSUFFICIENT_ALLOWANCE'
+    | 'INSUFFICIENT_LIQUIDITY'
+    | 'POOL_NOT_FOUND'
+    | 'POOL_EXISTS'
+    | 'SLIPPAGE_EXCEEDED'
+    | 'DEADLINE_EXPIRED'
+    | 'CONTRACT_REVERT'
+    | 'READ_FAILED'
+    | 'UNKNOWN';
+
+interface AileyErrorOptions {
+    /** Underlying wallet, RPC or SDK error */
+    cause?: unknown;
+}
+
+/**
+ * Base class of every error returned by the SDK hooks
+ *
+ * Branch on code rather than message, messages are meant for display and may change.
+ */
+export class AileyError extends Error {
+    readonly code: AileyErrorCode;
+    readonly cause?: unknown;
+
+    constructor(code: AileyErrorCode, message: string, options: AileyErrorOptions = {}) {
+        super(message);
+        this.name = 'AileyError';
+        this.code = code;
+        this.cause = options.cause;
+    }
+}
+
+/**
+ * The user rejected the request in the wallet
+ */
+export class UserRejectedError extends AileyError {
+    constructor(message = 'Transaction was rejected.', options?: AileyErrorOptions) {
+        super('USER_REJECTED', message, options);
+        this.name = 'UserRejectedError';
+    }
+}
+
+/**
+ * The wallet is on a chain the request cannot run on
+ */
+export class WrongChainError extends AileyError {
+    /** Chain the wallet is on */
+    readonly chainId?: number;
+
+    constructor(message: string, options: AileyErrorOptions & { chainId?: number } = {}) {
+        super('WRONG_CHAIN', message, options);
+        this.name = 'WrongChainError';
+        this.chainId = options.chainId;
+    }
+}
+
+/**
+ * The wallet holds less of a token (or of the native coin) than needed
+ */
+export class InsufficientBalanceError extends AileyError {
+    /** Token address, undefined for the native coin */
+    readonly token?: `0x${string}`;
+    /** Amount needed (in wei/smallest unit) */
+    readonly required?: bigint;
+    /** Wallet balance (in wei/smallest unit) */
+    readonly available?: bigint;
+
+    constructor(message: string, options: AileyErrorOptions & {
+        token?: `0x${string}`;
+        required?: bigint;
+        available?: bigint;
+    } = {}) {
+        super('INSUFFICIENT_BALANCE', message, options);
+        this.name = 'InsufficientBalanceError';
+        this.token = options.token;
+        this.required = options.required;
+        this.available = options.available;
+    }
+}
+
+/**
+ * The spender may not pull the amount needed
+ */
+export class InsufficientAllowanceError extends AileyError {
+    constructor(message: string, options?: AileyErrorOptions) {
+        super('INSUFFICIENT_ALLOWANCE', message, options);
+        this.name = 'InsufficientAllowanceError';
+    }
+}
+
+/**
+ * No pool or route exists for the requested tokens and fee tiers
+ */
+export class PoolNotFoundError extends AileyError {
+    constructor(message: string, options?: AileyErrorOptions) {
+        super('POOL_NOT_FOUND', message, options);
+        this.name = 'PoolNotFoundError';
+    }
+}
+
+/**
+ * The price moved beyond the slippage tolerance before the transaction was mined
+ */
+export class SlippageExceededError extends AileyError {
+    constructor(message = 'Price moved beyond your slippage tolerance. Try again or increase the slippage.', options?: AileyErrorOptions) {
+        super('SLIPPAGE_EXCEEDED', message, options);
+        this.name = 'SlippageExceededError';
+    }
+}
+
+/**
+ * The transaction was mined after its deadline
+ */
+export class DeadlineExpiredError extends AileyError {
+    constructor(message = 'Transaction deadline expired before it was mined. Try again.', options?: AileyErrorOptions) {
+        super('DEADLINE_EXPIRED', message, options);
+        this.name = 'DeadlineExpiredError';
+    }
+}
+
+/**
+ * A contract call reverted
+ *
+ * errorName and args hold the decoded custom error when the contract ABI declares it,
+ * reason holds the revert string of require() failures.
+ */
+export class ContractRevertError extends AileyError {
+    readonly errorName?: string;
+    readonly args?: readonly unknown[];
+    readonly reason?: string;
+
+    constructor(message: string, options: AileyErrorOptions & {
+        errorName?: string;
+        args?: readonly unknown[];
+        reason?: string;
+    } = {}) {
+        super('CONTRACT_REVERT', message, options);
+        this.name = 'ContractRevertError';
+        this.errorName = options.errorName;
+        this.args = options.args;
+        this.reason = options.reason;
+    }
+}
+
+// Custom errors (OpenZeppelin v5 ERC-20) that have a dedicated error class
+const CUSTOM_ERRORS: Record<string, (args: readonly unknown[], cause: unknown) => AileyError> = {
+    ERC20InsufficientBalance: ([, available, required], cause) => new InsufficientBalanceError(
+        'Token balance is too low for this transaction.',
+        {cause, required: required as bigint, available: available as bigint}
+    ),
+    ERC20InsufficientAllowance: (_, cause) => new InsufficientAllowanceError('Token allowance is too low for this transaction.', {cause})
+};
+
+// Revert strings of Uniswap V3 periphery and common ERC-20s that have a dedicated error class
+const REVERT_REASONS: [RegExp, (cause: unknown) => AileyError][] = [
+    [/too little received|too much requested|price slippage check/i, cause => new SlippageExceededError(undefined, {cause})],
+    [/transaction too old/i, cause => new DeadlineExpiredError(undefined, {cause})],
+    [/insufficient allowance/i, cause => new InsufficientAllowanceError('Token allowance is too low for this transaction.', {cause})],
+    [/exceeds balance|insufficient balance/i, cause => new InsufficientBalanceError('Token balance is too low for this transaction.', {cause})]
+];
+
+/**
+ * Classify a wallet, RPC or contract error as an AileyError
+ *
+ * Reverts are decoded into SlippageExceededError, DeadlineExpiredError, InsufficientAllowanceError or
+ * InsufficientBalanceError from their revert string or OpenZeppelin ERC-20 custom error, other reverts
+ * become ContractRevertError with the custom error decoded from the ABI of the call (or the abi option).
+ *
+ * @param error Error thrown by wagmi/viem or the SDK
+ * @param options.abi ABI to decode raw revert data with (e.g. the agent ABI)
+ * @param options.code Code for errors that cannot be classified (default: 'UNKNOWN')
+ * @param options.message Message for errors that cannot be classified (default: the error's short message)
+ */
+export function toAileyError(
+    error: unknown,
+    options: { abi?: Abi; code?: AileyErrorCode; message?: string } = {}
+): AileyError {
+    if (error instanceof AileyError) return error;
+
+    if (error instanceof BaseError) {
+        if (error.walk(e => e instanceof UserRejectedRequestError)) {
+            return new UserRejectedError(undefined, {cause: error});
+        }
+        if (error.walk(e => e instanceof ChainMismatchError)) {
+            return new WrongChainError(error.shortMessage, {cause: error});
+        }
+        if (error.walk(e => e instanceof InsufficientFundsError)) {
+            return new InsufficientBalanceError('Insufficient native balance to pay for this transaction.', {cause: error});
+        }
+
+        const reverted = error.walk(e => e instanceof ContractFunctionRevertedError);
+        if (reverted instanceof ContractFunctionRevertedError) {
+            let decoded = reverted.data;
+            if (!decoded && reverted.raw && options.abi) {
+                try {
+                    decoded = decodeErrorResult({abi: options.abi, data: reverted.raw});
+                } catch {
+                    // Not declared in the ABI
+                }
+            }
+
+            const reason = reverted.reason;
+            const known = reason && REVERT_REASONS.find(([pattern]) => pattern.test(reason));
+            if (known) return known[1](error);
+
+            const errorName = decoded && decoded.errorName !== 'Error' && decoded.errorName !== 'Panic' ? decoded.errorName : undefined;
+            const custom = errorName && CUSTOM_ERRORS[errorName];
+            if (custom) return custom(decoded?.args ?? [], error);
+
+            return new ContractRevertError(
+                reason ? `Execution reverted: ${reason}` : errorName ? `Execution reverted with ${errorName}` : reverted.shortMessage,
+                {cause: error, errorName, args: errorName ? decoded?.args : undefined, reason}
+            );
+        }
+    }
+
+    const message = error instanceof Error
+        ? (error as Error & { shortMessage?: string }).shortMessage ?? error.message
+        : String(error);
+
+    // Wallets outside viem's error classes
+    if ((error as { code?: unknown } | null)?.code === 4001 || /user rejected|user denied/i.test(message)) {
+        return new UserRejectedError(undefined, {cause: error});
+    }
+
+    return new AileyError(options.code ?? 'UNKNOWN', options.message ?? message, {cause: error});
+}
@@ -0,0 +1,30 @@
+/**
+ * Sentinel accepted wherever a token address is expected to mean the chain's native coin (BNB, ETH)
+ */
+export const NATIVE_CURRENCY = 'native' as const;
+
+/**
+ * Conventional placeholder address for the native coin, accepted as an alias of NATIVE_CURRENCY
+ */
+export const NATIVE_CURRENCY_ADDRESS = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE' as const;
+
+/**
+ * ERC-20 token address or the native coin
+ */
+export type CurrencyAddress = `0x${string}` | typeof NATIVE_CURRENCY;
+
+/**
+ * Whether an address refers to the native coin
+ */
+export function isNativeCurrency(address?: CurrencyAddress): boolean {
+    return address === NATIVE_CURRENCY || address?.toLowerCase() === NATIVE_CURRENCY_ADDRESS.toLowerCase();
+}
+
+/**
+ * Map the native coin to the chain's wrapped-native token, pools only hold ERC-20 tokens
+ *
+ * @returns The ERC-20 address, or undefined for the native coin when no wrapped-native token is configured
+ */
+export function toTokenAddress(address: CurrencyAddress, wrappedNative?: `0x${string}`): `0x${string}` | undefined {
+    return isNativeCurrency(address) ? wrappedNative : address as `0x${string}`;
+}
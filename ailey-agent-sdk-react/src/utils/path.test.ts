@@ -0,0 +1,27 @@
+import {describe, expect, it} from 'vitest';
+import {encodeSwapPath} from './path';
+
+const WBNB = '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c';
+const USDT = '0x55d398326f99059fF775485246999027B3197955';
+const ALE = '0x1111111111111111111111111111111111111111';
+
+describe('encodeSwapPath', () => {
+    it('encodes a single hop as token | fee | token', () => {
+        expect(encodeSwapPath([WBNB, USDT], [500])).toBe(
+            `0x${WBNB.slice(2)}0001f4${USDT.slice(2)}`
+        );
+    });
+
+    it('encodes every hop of a multi-hop path in order', () => {
+        const path = encodeSwapPath([ALE, WBNB, USDT], [3000, 100]);
+        expect(path).toBe(`0x${ALE.slice(2)}000bb8${WBNB.slice(2)}000064${USDT.slice(2)}`);
+        // 20 bytes per token, 3 bytes per fee
+        expect((path.length - 2) / 2).toBe(3 * 20 + 2 * 3);
+    });
+
+    it('rejects paths whose token and fee counts do not match', () => {
+        expect(() => encodeSwapPath([WBNB], [])).toThrow('Invalid swap path');
+        expect(() => encodeSwapPath([WBNB, USDT], [500, 3000])).toThrow('Invalid swap path');
+        expect(() => encodeSwapPath([ALE, WBNB, USDT], [500])).toThrow('Invalid swap path');
+    });
+});
@@ -0,0 +1,22 @@
+import {concat, numberToHex} from 'viem';
+
+/**
+ * Encode a Uniswap V3 swap path
+ *
+ * Layout: token (20 bytes) | fee (3 bytes) | token (20 bytes) | fee (3 bytes) | ... | token (20 bytes)
+ *
+ * @param tokens Token addresses along the path (one more than fees)
+ * @param fees Fee tier of each hop
+ */
+export function encodeSwapPath(tokens: readonly `0x${string}`[], fees: readonly number[]): `0x${string}` {
+    if (tokens.length < 2 || tokens.length !== fees.length + 1) {
+        throw new Error(`Invalid swap path: ${tokens.length} tokens for ${fees.length} fees`);
+    }
+
+    const parts: `0x${string}`[] = [tokens[0]];
+    fees.forEach((fee, i) => {
+        parts.push(numberToHex(fee, {size: 3}), tokens[i + 1]);
+    });
+
+    return concat(parts);
+}
@@ -0,0 +1,22 @@
+import {describe, expect, it} from 'vitest';
+import {computePoolAddress} from './poolAddress';
+
+// Uniswap V3 on Ethereum mainnet
+const FACTORY = '0x1F98431c8aD98523631AE4a59f267346ea31F984';
+const INIT_CODE_HASH = '0xe34f199b19b2b4f47f68442619d555527d244f78a3297ea89325f843f87b8b54';
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+
+describe('computePoolAddress', () => {
+    it('computes the address the factory deployed the pool at', () => {
+        expect(computePoolAddress(FACTORY, USDC, WETH, 500, INIT_CODE_HASH))
+            .toBe('0x88e6A0c2dDD26FEEb64F039a2c41296FcB3f5640');
+        expect(computePoolAddress(FACTORY, USDC, WETH, 3000, INIT_CODE_HASH))
+            .toBe('0x8ad599c3A0ff1De082011EFDDc58f1908eb6e6D8');
+    });
+
+    it('does not depend on the token order', () => {
+        expect(computePoolAddress(FACTORY, WETH, USDC, 500, INIT_CODE_HASH))
+            .toBe(computePoolAddress(FACTORY, USDC, WETH, 500, INIT_CODE_HASH));
+    });
+});
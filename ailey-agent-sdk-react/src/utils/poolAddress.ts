@@ -0,0 +1,27 @@
+import {encodeAbiParameters, getCreate2Address, keccak256} from 'viem';
+
+/**
+ * Address of the Uniswap V3 pool for a token pair and fee tier, computed from the factory's CREATE2 deployment
+ *
+ * The address is known before the pool exists, it only has code once the factory created the pool.
+ *
+ * @param factory UniswapV3Factory address
+ * @param tokenA First token of the pair (any order)
+ * @param tokenB Second token of the pair
+ * @param fee Fee tier in basis points (100 = 0.01%)
+ * @param initCodeHash keccak256 of the pool creation code deployed by the factory
+ */
+export function computePoolAddress(
+    factory: `0x${string}`,
+    tokenA: `0x${string}`,
+    tokenB: `0x${string}`,
+    fee: number,
+    initCodeHash: `0x${string}`
+): `0x${string}` {
+    const [token0, token1] = tokenA.toLowerCase() < tokenB.toLowerCase() ? [tokenA, tokenB] : [tokenB, tokenA];
+    const salt = keccak256(encodeAbiParameters(
+        [{type: 'address'}, {type: 'address'}, {type: 'uint24'}],
+        [token0, token1, fee]
+    ));
+    return getCreate2Address({from: factory, salt, bytecodeHash: initCodeHash});
+}
@@ -0,0 +1,89 @@
+import {computePriceImpact, CurrencyAmount, Percent, Price, Token} from "@uniswap/sdk-core";
+
+/**
+ * Price impact severity levels, from harmless to too risky to sign
+ */
+export type PriceImpactSeverity = 'low' | 'medium' | 'high' | 'blocked';
+
+/**
+ * Price impact thresholds in percent (1 = 1%), each level starts at its threshold
+ */
+export interface PriceImpactThresholds {
+    medium: number;
+    high: number;
+    blocked: number;
+}
+
+export const DEFAULT_PRICE_IMPACT_THRESHOLDS: PriceImpactThresholds = {
+    medium: 1,
+    high: 3,
+    blocked: 15
+};
+
+/**
+ * Price breakdown of a quoted trade
+ */
+export interface TradePricing {
+    /** Route mid price before the trade (input token in output token terms) */
+    midPrice: Price<Token, Token>;
+    /** Average price the trade executes at */
+    executionPrice: Price<Token, Token>;
+    /** Execution price inverted (output token in input token terms) */
+    inversePrice: Price<Token, Token>;
+    /** Price impact excluding LP fees, in percent (1.5 = 1.5%) */
+    priceImpact: number;
+    /** LP fees across all hops, denominated in the input token */
+    lpFeeAmount: bigint;
+}
+
+/**
+ * Compute mid price, execution price, price impact and LP fee of a trade
+ *
+ * LP fees are removed from the raw mid/execution price difference so that price impact only
+ * reflects how far the trade moves the pools, as in the Uniswap interface.
+ *
+ * @param midPrice Route mid price before the trade
+ * @param fees Fee tier of each hop
+ * @param amountIn Input amount of the trade
+ * @param amountOut Output amount of the trade
+ */
+export function computeTradePricing(
+    midPrice: Price<Token, Token>,
+    fees: readonly number[],
+    amountIn: CurrencyAmount<Token>,
+    amountOut: CurrencyAmount<Token>
+): TradePricing {
+    const executionPrice = new Price(amountIn.currency, amountOut.currency, amountIn.quotient, amountOut.quotient);
+
+    // 1 - Π(1 - fee_i), the share of the input kept by LPs along the route
+    const ONE = new Percent(1, 1);
+    const lpFeePercent = ONE.subtract(
+        fees.reduce((remaining, fee) => remaining.multiply(ONE.subtract(new Percent(fee, 1_000_000))), ONE)
+    );
+
+    const priceImpact = computePriceImpact(midPrice, amountIn, amountOut).subtract(lpFeePercent);
+
+    return {
+        midPrice,
+        executionPrice,
+        inversePrice: executionPrice.invert(),
+        priceImpact: Math.max(0, Number(priceImpact.toFixed(4))),
+        lpFeeAmount: BigInt(amountIn.multiply(lpFeePercent).quotient.toString())
+    };
+}
+
+/**
+ * Classify a price impact percentage into a severity level
+ *
+ * @param priceImpact Price impact in percent (1.5 = 1.5%)
+ * @param thresholds Thresholds at which each level starts
+ */
+export function classifyPriceImpact(
+    priceImpact: number,
+    thresholds: PriceImpactThresholds = DEFAULT_PRICE_IMPACT_THRESHOLDS
+): PriceImpactSeverity {
+    if (priceImpact >= thresholds.blocked) return 'blocked';
+    if (priceImpact >= thresholds.high) return 'high';
+    if (priceImpact >= thresholds.medium) return 'medium';
+    return 'low';
+}
@@ -0,0 +1,93 @@
+import {describe, expect, it} from 'vitest';
+import {CurrencyAmount, Token} from "@uniswap/sdk-core";
+import {nearestUsableTick, TickMath} from "@uniswap/v3-sdk";
+import {parsePrice, resolvePriceRange} from './priceRange';
+
+const CHAIN_ID = 56;
+// TOKEN_A sorts before TOKEN_B, so TOKEN_A is token0 of their pool
+const TOKEN_A = new Token(CHAIN_ID, '0x1111111111111111111111111111111111111111', 18, 'AAA');
+const TOKEN_B = new Token(CHAIN_ID, '0x2222222222222222222222222222222222222222', 18, 'BBB');
+const USDC = new Token(CHAIN_ID, '0x3333333333333333333333333333333333333333', 6, 'USDC');
+
+describe('parsePrice', () => {
+    it('parses decimal prices of the base token in the quote token', () => {
+        expect(parsePrice(TOKEN_A, TOKEN_B, '1.5').toSignificant(6)).toBe('1.5');
+        expect(parsePrice(TOKEN_A, TOKEN_B, ' 0.0012 ').toSignificant(6)).toBe('0.0012');
+        expect(parsePrice(TOKEN_A, TOKEN_B, '.5').toSignificant(6)).toBe('0.5');
+    });
+
+    it('accounts for the decimals of both tokens', () => {
+        const price = parsePrice(TOKEN_A, USDC, '2');
+        expect(price.toSignificant(6)).toBe('2');
+        // 1 AAA (10^18 raw) is worth 2 USDC (2 * 10^6 raw)
+        expect(price.quote(CurrencyAmount.fromRawAmount(TOKEN_A, (10n ** 18n).toString())).quotient.toString())
+            .toBe('2000000');
+    });
+
+    it('rejects prices that are not positive decimals', () => {
+        for (const value of ['', 'abc', '0', '0.000', '-1', '1e5', '1.2.3']) {
+            expect(() => parsePrice(TOKEN_A, TOKEN_B, value)).toThrow('Invalid price');
+        }
+    });
+});
+
+describe('resolvePriceRange', () => {
+    it('resolves the full range to the outermost usable ticks', () => {
+        const range = resolvePriceRange({type: 'full'}, TOKEN_A, TOKEN_B, 0, 60);
+        expect(range.tickLower).toBe(nearestUsableTick(TickMath.MIN_TICK, 60));
+        expect(range.tickUpper).toBe(nearestUsableTick(TickMath.MAX_TICK, 60));
+        expect(range.isFullRange).toBe(true);
+    });
+
+    it('rounds explicit ticks to the tick spacing', () => {
+        const range = resolvePriceRange({type: 'ticks', tickLower: 100, tickUpper: 250}, TOKEN_A, TOKEN_B, 0, 60);
+        expect([range.tickLower, range.tickUpper]).toEqual([120, 240]);
+        expect(range.isFullRange).toBe(false);
+    });
+
+    it('widens ranges narrower than one tick spacing', () => {
+        const range = resolvePriceRange({type: 'ticks', tickLower: 10, tickUpper: 20}, TOKEN_A, TOKEN_B, 0, 60);
+        expect([range.tickLower, range.tickUpper]).toEqual([0, 60]);
+    });
+
+    it('converts base token prices to ticks when the base token is token0', () => {
+        const range = resolvePriceRange({type: 'prices', priceLower: '1', priceUpper: '2'}, TOKEN_A, TOKEN_B, 0, 10);
+        expect(range.tickLower).toBe(0);
+        expect(range.tickUpper).toBeGreaterThan(6900);
+        expect(range.priceLower.toFixed(2)).toBe('1.00');
+        expect(range.priceUpper.toFixed(2)).toBe('2.00');
+    });
+
+    it('inverts the ticks when the base token is token1', () => {
+        const range = resolvePriceRange({type: 'prices', priceLower: '1', priceUpper: '2'}, TOKEN_B, TOKEN_A, 0, 10);
+        expect(range.tickLower).toBeLessThan(-6900);
+        expect(range.tickUpper).toBe(0);
+        // Prices stay quoted for the base token
+        expect(range.priceLower.baseCurrency.equals(TOKEN_B)).toBe(true);
+        expect(range.priceLower.toFixed(2)).toBe('1.00');
+        expect(range.priceUpper.toFixed(2)).toBe('2.00');
+    });
+
+    it('rejects price ranges whose lower price is not below the upper one', () => {
+        expect(() => resolvePriceRange({type: 'prices', priceLower: '2', priceUpper: '1'}, TOKEN_A, TOKEN_B, 0, 10))
+            .toThrow('lower price must be below upper price');
+        expect(() => resolvePriceRange({type: 'prices', priceLower: '1', priceUpper: '1'}, TOKEN_A, TOKEN_B, 0, 10))
+            .toThrow('lower price must be below upper price');
+    });
+
+    it('resolves percentages around the current tick', () => {
+        // 1.0001^-1054 is just below -10%, 1.0001^954 just above +10%
+        const range = resolvePriceRange({type: 'percent', lowerPercent: 10, upperPercent: 10}, TOKEN_A, TOKEN_B, 1000, 1);
+        expect([range.tickLower, range.tickUpper]).toEqual([1000 - 1054, 1000 + 954]);
+
+        const inverted = resolvePriceRange({type: 'percent', lowerPercent: 10, upperPercent: 10}, TOKEN_B, TOKEN_A, 1000, 1);
+        expect([inverted.tickLower, inverted.tickUpper]).toEqual([1000 - 954, 1000 + 1054]);
+    });
+
+    it('rejects percentages outside the valid bounds', () => {
+        expect(() => resolvePriceRange({type: 'percent', lowerPercent: 100, upperPercent: 10}, TOKEN_A, TOKEN_B, 0, 60))
+            .toThrow('Invalid price range');
+        expect(() => resolvePriceRange({type: 'percent', lowerPercent: -1, upperPercent: 10}, TOKEN_A, TOKEN_B, 0, 60))
+            .toThrow('Invalid price range');
+    });
+});
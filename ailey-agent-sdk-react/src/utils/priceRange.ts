@@ -0,0 +1,154 @@
+import {Price, Token} from "@uniswap/sdk-core";
+import {encodeSqrtRatioX96, nearestUsableTick, priceToClosestTick, TickMath, tickToPrice} from "@uniswap/v3-sdk";
+import JSBI from "jsbi";
+
+/**
+ * Liquidity price range specification
+ *
+ * Prices are human-readable prices of the base token (token A) in the quote token (token B),
+ * e.g. "0.0012" WBNB per ALE, regardless of how the pool sorts the two tokens.
+ *
+ * - ticks: explicit ticks, rounded to the pool's tick spacing
+ * - prices: lower and upper price of the base token
+ * - percent: percentages below and above the current price (10 = 10%)
+ * - full: the widest range the pool's tick spacing allows
+ */
+export type PriceRange =
+    | { type: 'ticks'; tickLower: number; tickUpper: number }
+    | { type: 'prices'; priceLower: string; priceUpper: string }
+    | { type: 'percent'; lowerPercent: number; upperPercent: number }
+    | { type: 'full' };
+
+/**
+ * Resolved tick range with the base token prices at both ends
+ */
+export interface ResolvedPriceRange {
+    tickLower: number;
+    tickUpper: number;
+    /** Base token price at the lower end of the range */
+    priceLower: Price<Token, Token>;
+    /** Base token price at the upper end of the range */
+    priceUpper: Price<Token, Token>;
+    /** Whether the range covers every usable tick */
+    isFullRange: boolean;
+}
+
+// Natural log of the price ratio between two adjacent ticks
+const LOG_TICK_BASE = Math.log(1.0001);
+
+const DECIMAL_PRICE_PATTERN = /^(\d+\.?\d*|\.\d+)$/;
+
+/**
+ * Parse a human-readable price of the base token in the quote token into a Price
+ */
+export function parsePrice(baseToken: Token, quoteToken: Token, value: string): Price<Token, Token> {
+    const trimmed = value.trim();
+    if (!DECIMAL_PRICE_PATTERN.test(trimmed) || !/[1-9]/.test(trimmed)) {
+        throw new Error(`Invalid price: ${value}`);
+    }
+
+    const [whole, fraction = ''] = trimmed.split('.');
+    const numerator = BigInt(whole + fraction) * 10n ** BigInt(quoteToken.decimals);
+    const denominator = 10n ** BigInt(fraction.length + baseToken.decimals);
+
+    return new Price(baseToken, quoteToken, denominator.toString(), numerator.toString());
+}
+
+/**
+ * Convert a price into the sqrtPriceX96 a pool of the two tokens is initialized with
+ *
+ * The pool price is always the token0 price in token1, the price is inverted when its base is token1.
+ */
+export function priceToSqrtPriceX96(price: Price<Token, Token>): bigint {
+    const sqrtPriceX96 = price.baseCurrency.sortsBefore(price.quoteCurrency)
+        ? encodeSqrtRatioX96(price.numerator, price.denominator)
+        : encodeSqrtRatioX96(price.denominator, price.numerator);
+
+    if (JSBI.lessThan(sqrtPriceX96, TickMath.MIN_SQRT_RATIO) || JSBI.greaterThanOrEqual(sqrtPriceX96, TickMath.MAX_SQRT_RATIO)) {
+        throw new Error(`Price ${price.toSignificant(6)} is outside the range supported by Uniswap V3`);
+    }
+    return BigInt(sqrtPriceX96.toString());
+}
+
+/**
+ * Convert a range specification into ticks usable by the pool
+ *
+ * @param range Range specification
+ * @param baseToken Token the range prices are quoted for (token A)
+ * @param quoteToken Token the range prices are quoted in (token B)
+ * @param currentTick Current pool tick
+ * @param tickSpacing Pool tick spacing
+ */
+export function resolvePriceRange(
+    range: PriceRange,
+    baseToken: Token,
+    quoteToken: Token,
+    currentTick: number,
+    tickSpacing: number
+): ResolvedPriceRange {
+    const minTick = nearestUsableTick(TickMath.MIN_TICK, tickSpacing);
+    const maxTick = nearestUsableTick(TickMath.MAX_TICK, tickSpacing);
+    // Ticks track the token0 price, a rising base token price lowers the tick when the base is token1
+    const isBaseToken0 = baseToken.sortsBefore(quoteToken);
+
+    let ticks: [number, number];
+    switch (range.type) {
+        case 'full':
+            ticks = [minTick, maxTick];
+            break;
+        case 'ticks':
+            ticks = [range.tickLower, range.tickUpper];
+            break;
+        case 'prices': {
+            const lower = parsePrice(baseToken, quoteToken, range.priceLower);
+            const upper = parsePrice(baseToken, quoteToken, range.priceUpper);
+            if (!lower.lessThan(upper)) {
+                throw new Error('Invalid price range: lower price must be below upper price');
+            }
+            ticks = [priceToTick(lower), priceToTick(upper)];
+            break;
+        }
+        case 'percent': {
+            if (range.lowerPercent < 0 || range.lowerPercent >= 100 || range.upperPercent < 0) {
+                throw new Error('Invalid price range: percentages must be >= 0 and the lower one below 100');
+            }
+            const lowerOffset = Math.floor(Math.log(1 - range.lowerPercent / 100) / LOG_TICK_BASE);
+            const upperOffset = Math.ceil(Math.log(1 + range.upperPercent / 100) / LOG_TICK_BASE);
+            ticks = isBaseToken0
+                ? [currentTick + lowerOffset, currentTick + upperOffset]
+                : [currentTick - upperOffset, currentTick - lowerOffset];
+            break;
+        }
+    }
+
+    // Round to the tick spacing inside the valid tick bounds
+    let tickLower = Math.max(minTick, nearestUsableTick(Math.max(Math.min(...ticks), TickMath.MIN_TICK), tickSpacing));
+    let tickUpper = Math.min(maxTick, nearestUsableTick(Math.min(Math.max(...ticks), TickMath.MAX_TICK), tickSpacing));
+    if (tickLower === tickUpper) {
+        // Range narrower than one tick spacing, widen it to a single spacing
+        if (tickUpper + tickSpacing <= maxTick) tickUpper += tickSpacing;
+        else tickLower -= tickSpacing;
+    }
+    if (tickLower >= tickUpper) {
+        throw new Error(`Invalid price range: ticks ${tickLower} to ${tickUpper}`);
+    }
+
+    const priceAtLower = tickToPrice(baseToken, quoteToken, tickLower);
+    const priceAtUpper = tickToPrice(baseToken, quoteToken, tickUpper);
+
+    return {
+        tickLower,
+        tickUpper,
+        priceLower: isBaseToken0 ? priceAtLower : priceAtUpper,
+        priceUpper: isBaseToken0 ? priceAtUpper : priceAtLower,
+        isFullRange: tickLower === minTick && tickUpper === maxTick
+    };
+}
+
+function priceToTick(price: Price<Token, Token>): number {
+    try {
+        return priceToClosestTick(price);
+    } catch {
+        throw new Error(`Price ${price.toSignificant(6)} is outside the range supported by Uniswap V3`);
+    }
+}
@@ -0,0 +1,72 @@
+import {describe, expect, it} from 'vitest';
+import {BitmapTickDataProvider, compressTick, tickBitmapPosition} from './tickDataProvider';
+
+const TICK_SPACING = 60;
+
+// Initialized ticks 120 and 600 in word 0, -60 in word -1
+const bitmaps = new Map<number, bigint>([
+    [0, (1n << 2n) | (1n << 10n)],
+    [-1, 1n << 255n]
+]);
+const liquidityNets = new Map<number, bigint>([
+    [120, 1_000n],
+    [600, -1_000n],
+    [-60, 500n]
+]);
+const provider = new BitmapTickDataProvider(bitmaps, liquidityNets);
+
+describe('compressTick', () => {
+    it('rounds towards negative infinity', () => {
+        expect(compressTick(600, TICK_SPACING)).toBe(10);
+        expect(compressTick(599, TICK_SPACING)).toBe(9);
+        expect(compressTick(-60, TICK_SPACING)).toBe(-1);
+        expect(compressTick(-61, TICK_SPACING)).toBe(-2);
+    });
+});
+
+describe('tickBitmapPosition', () => {
+    it('splits a compressed tick into word and bit position', () => {
+        expect(tickBitmapPosition(10)).toEqual([0, 10]);
+        expect(tickBitmapPosition(256)).toEqual([1, 0]);
+        expect(tickBitmapPosition(-1)).toEqual([-1, 255]);
+        expect(tickBitmapPosition(-256)).toEqual([-1, 0]);
+    });
+});
+
+describe('BitmapTickDataProvider', () => {
+    it('returns the liquidityNet of loaded ticks', async () => {
+        await expect(provider.getTick(120)).resolves.toEqual({liquidityNet: '1000'});
+        await expect(provider.getTick(600)).resolves.toEqual({liquidityNet: '-1000'});
+    });
+
+    it('throws for ticks that were not loaded', async () => {
+        await expect(provider.getTick(180)).rejects.toThrow('Tick 180 is not loaded');
+    });
+
+    describe('nextInitializedTickWithinOneWord', () => {
+        it('finds the initialized tick at or below the current one (lte)', async () => {
+            await expect(provider.nextInitializedTickWithinOneWord(600, true, TICK_SPACING)).resolves.toEqual([600, true]);
+            await expect(provider.nextInitializedTickWithinOneWord(599, true, TICK_SPACING)).resolves.toEqual([120, true]);
+            await expect(provider.nextInitializedTickWithinOneWord(-60, true, TICK_SPACING)).resolves.toEqual([-60, true]);
+        });
+
+        it('stops at the start of the word when nothing is initialized below (lte)', async () => {
+            await expect(provider.nextInitializedTickWithinOneWord(60, true, TICK_SPACING)).resolves.toEqual([0, false]);
+            await expect(provider.nextInitializedTickWithinOneWord(-61, true, TICK_SPACING)).resolves.toEqual([-15_360, false]);
+        });
+
+        it('finds the next initialized tick above the current one (gt)', async () => {
+            await expect(provider.nextInitializedTickWithinOneWord(120, false, TICK_SPACING)).resolves.toEqual([600, true]);
+            await expect(provider.nextInitializedTickWithinOneWord(-61, false, TICK_SPACING)).resolves.toEqual([-60, true]);
+        });
+
+        it('stops at the end of the word when nothing is initialized above (gt)', async () => {
+            await expect(provider.nextInitializedTickWithinOneWord(600, false, TICK_SPACING)).resolves.toEqual([15_300, false]);
+        });
+
+        it('throws when the search reaches a word that was not loaded', async () => {
+            await expect(provider.nextInitializedTickWithinOneWord(15_360, true, TICK_SPACING)).rejects.toThrow('word 1 is not loaded');
+            await expect(provider.nextInitializedTickWithinOneWord(15_300, false, TICK_SPACING)).rejects.toThrow('word 1 is not loaded');
+        });
+    });
+});
@@ -0,0 +1,80 @@
+import {BigintIsh} from "@uniswap/sdk-core";
+import {TickDataProvider} from "@uniswap/v3-sdk";
+
+/**
+ * Word position and bit position of a compressed tick in the pool's tickBitmap
+ */
+export function tickBitmapPosition(compressedTick: number): [wordPos: number, bitPos: number] {
+    return [compressedTick >> 8, ((compressedTick % 256) + 256) % 256];
+}
+
+/**
+ * Compress a tick by the pool's tick spacing, rounding towards negative infinity
+ */
+export function compressTick(tick: number, tickSpacing: number): number {
+    return Math.floor(tick / tickSpacing);
+}
+
+function mostSignificantBit(x: bigint): number {
+    return x.toString(2).length - 1;
+}
+
+function leastSignificantBit(x: bigint): number {
+    return (x & -x).toString(2).length - 1;
+}
+
+/**
+ * Tick data provider backed by tickBitmap words and tick liquidity loaded from a pool contract
+ *
+ * Mirrors TickBitmap.nextInitializedTickWithinOneWord from the Uniswap V3 core contracts.
+ * Only the loaded words are known: swaps that move the price past them throw instead of
+ * silently assuming there is no liquidity beyond.
+ */
+export class BitmapTickDataProvider implements TickDataProvider {
+    constructor(
+        private readonly bitmaps: ReadonlyMap<number, bigint>,
+        private readonly liquidityNets: ReadonlyMap<number, bigint>
+    ) {
+    }
+
+    async getTick(tick: number): Promise<{ liquidityNet: BigintIsh }> {
+        const liquidityNet = this.liquidityNets.get(tick);
+        if (liquidityNet === undefined) {
+            throw new Error(`Tick ${tick} is not loaded`);
+        }
+        return {liquidityNet: liquidityNet.toString()};
+    }
+
+    async nextInitializedTickWithinOneWord(tick: number, lte: boolean, tickSpacing: number): Promise<[number, boolean]> {
+        const compressed = compressTick(tick, tickSpacing);
+
+        if (lte) {
+            const [wordPos, bitPos] = tickBitmapPosition(compressed);
+            // All the 1s at or to the right of the current bitPos
+            const mask = (1n << BigInt(bitPos + 1)) - 1n;
+            const masked = this.word(wordPos) & mask;
+
+            return masked !== 0n
+                ? [(compressed - (bitPos - mostSignificantBit(masked))) * tickSpacing, true]
+                : [(compressed - bitPos) * tickSpacing, false];
+        }
+
+        // Start from the next tick, the current one is already crossed
+        const [wordPos, bitPos] = tickBitmapPosition(compressed + 1);
+        // All the 1s at or to the left of the bitPos
+        const mask = ((1n << 256n) - 1n) ^ ((1n << BigInt(bitPos)) - 1n);
+        const masked = this.word(wordPos) & mask;
+
+        return masked !== 0n
+            ? [(compressed + 1 + (leastSignificantBit(masked) - bitPos)) * tickSpacing, true]
+            : [(compressed + 1 + (255 - bitPos)) * tickSpacing, false];
+    }
+
+    private word(wordPos: number): bigint {
+        const word = this.bitmaps.get(wordPos);
+        if (word === undefined) {
+            throw new Error(`Tick bitmap word ${wordPos} is not loaded, the trade moves the price too far`);
+        }
+        return word;
+    }
+}
@@ -0,0 +1,100 @@
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {
+    computeAutoSlippageBps,
+    deadlineFromNow,
+    DEFAULT_DEADLINE_MINUTES,
+    DEFAULT_SLIPPAGE_BPS,
+    maximumAmount,
+    minimumAmount,
+    resolveSlippageBps,
+    resolveTransactionSettings,
+    TransactionSettingsError
+} from './transactionSettings';
+
+describe('resolveTransactionSettings', () => {
+    it('falls back to the built-in defaults', () => {
+        expect(resolveTransactionSettings()).toEqual({
+            slippageBps: DEFAULT_SLIPPAGE_BPS,
+            deadlineMinutes: DEFAULT_DEADLINE_MINUTES
+        });
+    });
+
+    it('applies provider defaults and lets per-call settings win', () => {
+        const defaults = {slippageBps: 100, deadlineMinutes: 20};
+        expect(resolveTransactionSettings({}, defaults)).toEqual({slippageBps: 100, deadlineMinutes: 20});
+        expect(resolveTransactionSettings({slippageBps: 'auto'}, defaults)).toEqual({slippageBps: 'auto', deadlineMinutes: 20});
+        expect(resolveTransactionSettings({slippageBps: 0, deadlineMinutes: 5}, defaults)).toEqual({slippageBps: 0, deadlineMinutes: 5});
+    });
+
+    it.each([
+        [{slippageBps: -1}, 'slippageBps'],
+        [{slippageBps: 5001}, 'slippageBps'],
+        [{slippageBps: 12.5}, 'slippageBps'],
+        [{deadlineMinutes: 0}, 'deadlineMinutes'],
+        [{deadlineMinutes: 60 * 24 + 1}, 'deadlineMinutes'],
+        [{deadlineMinutes: Number.NaN}, 'deadlineMinutes']
+    ] as const)('rejects %o', (settings, setting) => {
+        let error: unknown;
+        try {
+            resolveTransactionSettings(settings);
+        } catch (e) {
+            error = e;
+        }
+        expect(error).toBeInstanceOf(TransactionSettingsError);
+        expect(error).toMatchObject({code: 'INVALID_INPUT', setting});
+    });
+
+    it('rejects invalid provider defaults', () => {
+        expect(() => resolveTransactionSettings({}, {slippageBps: 6000})).toThrow(TransactionSettingsError);
+    });
+});
+
+describe('computeAutoSlippageBps', () => {
+    it('uses the default tolerance without volatility data', () => {
+        expect(computeAutoSlippageBps({})).toBe(DEFAULT_SLIPPAGE_BPS);
+    });
+
+    it('adds half the price impact to the recent volatility', () => {
+        expect(computeAutoSlippageBps({volatilityBps: 30})).toBe(30);
+        // 30 bps + 1.5% / 2
+        expect(computeAutoSlippageBps({volatilityBps: 30, priceImpact: 1.5})).toBe(105);
+    });
+
+    it('bounds the tolerance to 0.1%-5%', () => {
+        expect(computeAutoSlippageBps({volatilityBps: 0})).toBe(10);
+        expect(computeAutoSlippageBps({volatilityBps: 2000})).toBe(500);
+        expect(computeAutoSlippageBps({volatilityBps: 100, priceImpact: 20})).toBe(500);
+    });
+});
+
+describe('resolveSlippageBps', () => {
+    it('keeps fixed tolerances and computes auto ones', () => {
+        expect(resolveSlippageBps(75, {volatilityBps: 300})).toBe(75);
+        expect(resolveSlippageBps('auto', {volatilityBps: 300})).toBe(300);
+    });
+});
+
+describe('minimumAmount / maximumAmount', () => {
+    it('applies the tolerance below and above the amount', () => {
+        expect(minimumAmount(10_000n, 50)).toBe(9_950n);
+        expect(maximumAmount(10_000n, 50)).toBe(10_050n);
+        expect(minimumAmount(10_000n, 0)).toBe(10_000n);
+    });
+
+    it('rounds down', () => {
+        expect(minimumAmount(999n, 50)).toBe(994n);
+        expect(maximumAmount(999n, 50)).toBe(1_003n);
+    });
+});
+
+describe('deadlineFromNow', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('returns the unix timestamp the given minutes from now', () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+        expect(deadlineFromNow(10)).toBe(BigInt(Date.UTC(2026, 0, 1) / 1000 + 600));
+    });
+});
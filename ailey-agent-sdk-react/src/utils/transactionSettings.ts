@@ -0,0 +1,157 @@
+import {AileyError} from './errors';
+
+/**
+ * Slippage tolerance in basis points (50 = 0.5%), or 'auto' to size it from recent pool
+ * volatility and the trade's price impact
+ */
+export type SlippageSetting = number | 'auto';
+
+/**
+ * Slippage and deadline of swap and liquidity transactions
+ *
+ * Set provider-wide in aileyConfig.transactionSettings and per call on the hook params,
+ * per-call values win.
+ */
+export interface TransactionSettings {
+    /** Slippage tolerance in basis points (50 = 0.5%) or 'auto' (default: 50) */
+    slippageBps?: SlippageSetting;
+    /** Minutes until a sent transaction expires on-chain (default: 10) */
+    deadlineMinutes?: number;
+}
+
+/**
+ * Transaction settings with defaults applied
+ */
+export interface ResolvedTransactionSettings {
+    slippageBps: SlippageSetting;
+    deadlineMinutes: number;
+}
+
+/**
+ * Market conditions used by 'auto' slippage
+ */
+export interface AutoSlippageInputs {
+    /** Recent price movement of the pools, in basis points (see usePoolVolatility) */
+    volatilityBps?: number;
+    /** Price impact of the trade in percent (1.5 = 1.5%) */
+    priceImpact?: number;
+}
+
+export const DEFAULT_SLIPPAGE_BPS = 50;          // 0.5% slippage tolerance
+export const DEFAULT_DEADLINE_MINUTES = 10;      // 10 minutes transaction deadline
+export const MAX_SLIPPAGE_BPS = 5000;            // 50%, anything above is almost certainly a mistake
+export const MAX_DEADLINE_MINUTES = 60 * 24;     // 1 day
+
+// Bounds of the 'auto' slippage tolerance
+const AUTO_SLIPPAGE_MIN_BPS = 10;                // 0.1%
+const AUTO_SLIPPAGE_MAX_BPS = 500;               // 5%
+
+const BPS = 10_000n;
+
+/**
+ * Thrown when a slippage or deadline setting is out of range
+ */
+export class TransactionSettingsError extends AileyError {
+    /** Setting that was rejected */
+    readonly setting: keyof TransactionSettings;
+    /** Rejected value */
+    readonly value: unknown;
+
+    constructor(setting: keyof TransactionSettings, value: unknown, message: string) {
+        super('INVALID_INPUT', message);
+        this.name = 'TransactionSettingsError';
+        this.setting = setting;
+        this.value = value;
+    }
+}
+
+/**
+ * Check a slippage setting is 'auto' or a whole number of basis points between 0 and 50%
+ *
+ * @throws TransactionSettingsError
+ */
+export function validateSlippageBps(slippageBps: SlippageSetting): SlippageSetting {
+    if (slippageBps === 'auto') return slippageBps;
+
+    if (typeof slippageBps !== 'number' || !Number.isInteger(slippageBps)) {
+        throw new TransactionSettingsError('slippageBps', slippageBps,
+            `Slippage must be a whole number of basis points or 'auto', got ${String(slippageBps)}`);
+    }
+    if (slippageBps < 0 || slippageBps > MAX_SLIPPAGE_BPS) {
+        throw new TransactionSettingsError('slippageBps', slippageBps,
+            `Slippage must be between 0 and ${MAX_SLIPPAGE_BPS} bps (${MAX_SLIPPAGE_BPS / 100}%), got ${slippageBps}`);
+    }
+    return slippageBps;
+}
+
+/**
+ * Check a deadline is a positive number of minutes of at most one day
+ *
+ * @throws TransactionSettingsError
+ */
+export function validateDeadlineMinutes(deadlineMinutes: number): number {
+    if (typeof deadlineMinutes !== 'number' || !Number.isFinite(deadlineMinutes) ||
+        deadlineMinutes <= 0 || deadlineMinutes > MAX_DEADLINE_MINUTES) {
+        throw new TransactionSettingsError('deadlineMinutes', deadlineMinutes,
+            `Deadline must be more than 0 and at most ${MAX_DEADLINE_MINUTES} minutes, got ${String(deadlineMinutes)}`);
+    }
+    return deadlineMinutes;
+}
+
+/**
+ * Merge per-call settings over provider defaults and validate the result
+ *
+ * @param settings Per-call settings
+ * @param defaults Provider-level settings (aileyConfig.transactionSettings)
+ * @throws TransactionSettingsError
+ */
+export function resolveTransactionSettings(
+    settings?: TransactionSettings,
+    defaults?: TransactionSettings
+): ResolvedTransactionSettings {
+    return {
+        slippageBps: validateSlippageBps(settings?.slippageBps ?? defaults?.slippageBps ?? DEFAULT_SLIPPAGE_BPS),
+        deadlineMinutes: validateDeadlineMinutes(settings?.deadlineMinutes ?? defaults?.deadlineMinutes ?? DEFAULT_DEADLINE_MINUTES)
+    };
+}
+
+/**
+ * Size a slippage tolerance from market conditions
+ *
+ * Recent pool movement is the price drift to expect before the transaction is mined, half the
+ * price impact is added because thin pools move further under other traders' orders.
+ * Without volatility data the default tolerance stands in for it. Bounded to 0.1%-5%.
+ */
+export function computeAutoSlippageBps({volatilityBps, priceImpact = 0}: AutoSlippageInputs): number {
+    const drift = volatilityBps ?? DEFAULT_SLIPPAGE_BPS;
+    const slippage = Math.ceil(drift + priceImpact * 100 / 2);
+    return Math.min(AUTO_SLIPPAGE_MAX_BPS, Math.max(AUTO_SLIPPAGE_MIN_BPS, slippage));
+}
+
+/**
+ * Resolve a slippage setting to basis points, computing 'auto' from market conditions
+ */
+export function resolveSlippageBps(slippageBps: SlippageSetting, inputs: AutoSlippageInputs = {}): number {
+    return slippageBps === 'auto' ? computeAutoSlippageBps(inputs) : slippageBps;
+}
+
+/**
+ * Smallest acceptable amount after slippage (minimum output, liquidity min amounts)
+ */
+export function minimumAmount(amount: bigint, slippageBps: number): bigint {
+    return amount * (BPS - BigInt(slippageBps)) / BPS;
+}
+
+/**
+ * Largest acceptable amount after slippage (maximum input)
+ */
+export function maximumAmount(amount: bigint, slippageBps: number): bigint {
+    return amount * (BPS + BigInt(slippageBps)) / BPS;
+}
+
+/**
+ * Unix timestamp (in seconds) the given number of minutes from now
+ */
+export function deadlineFromNow(deadlineMinutes: number): bigint {
+    return BigInt(Math.floor(Date.now() / 1000 + 60 * deadlineMinutes));
+}
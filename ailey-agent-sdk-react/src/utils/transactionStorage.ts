@@ -0,0 +1,169 @@
+/**
+ * Kind of a recorded transaction
+ */
+export type AileyTransactionType =
+    'approve'
+    | 'wrap'
+    | 'unwrap'
+    | 'swap'
+    | 'add-liquidity'
+    | 'increase-liquidity'
+    | 'decrease-liquidity'
+    | 'collect-fees'
+    | 'create-pool'
+    | 'agent-call';
+
+/**
+ * State of a recorded transaction
+ * Flow: pending -> confirmed | reverted
+ */
+export type AileyTransactionStatus = 'pending' | 'confirmed' | 'reverted';
+
+/**
+ * Summary of a mined transaction's receipt
+ */
+export interface TransactionReceiptSummary {
+    blockNumber: bigint;
+    gasUsed: bigint;
+    /** Price paid per gas (in wei) */
+    effectiveGasPrice: bigint;
+}
+
+/**
+ * Transaction recorded in the transaction store
+ */
+export interface AileyTransaction {
+    hash: `0x${string}`;
+    chainId: number;
+    /** Wallet that sent the transaction */
+    account: `0x${string}`;
+    type: AileyTransactionType;
+    /** Flow step that sent the transaction (e.g. 'approve-token0'), undefined for direct agent calls */
+    stepId?: string;
+    /** Parameters of the transaction (tokens, amounts, ...), bigints are kept as bigints */
+    params?: Record<string, unknown>;
+    status: AileyTransactionStatus;
+    /** When the wallet returned the hash (ms since epoch) */
+    submittedAt: number;
+    /** When the receipt was received (ms since epoch) */
+    confirmedAt?: number;
+    receipt?: TransactionReceiptSummary;
+}
+
+/**
+ * Persistence adapter of the transaction store, passed to AileyProvider as aileyConfig.transactionStorage
+ *
+ * load() runs once when the provider mounts, save() after every change with the full history.
+ */
+export interface TransactionStorage {
+    load: () => AileyTransaction[] | Promise<AileyTransaction[]>;
+    save: (transactions: AileyTransaction[]) => void | Promise<void>;
+}
+
+// JSON has no bigint, amounts are stored as {"$bigint": "123"}
+const BIGINT_KEY = '$bigint';
+
+/**
+ * Serialize transactions to JSON, keeping bigints
+ */
+export function serializeTransactions(transactions: AileyTransaction[]): string {
+    return JSON.stringify(transactions, (_, value) =>
+        typeof value === 'bigint' ? {[BIGINT_KEY]: value.toString()} : value);
+}
+
+/**
+ * Parse transactions serialized by serializeTransactions
+ */
+export function deserializeTransactions(json: string): AileyTransaction[] {
+    const parsed: unknown = JSON.parse(json, (_, value) =>
+        value !== null && typeof value === 'object' && typeof value[BIGINT_KEY] === 'string' && Object.keys(value).length === 1
+            ? BigInt(value[BIGINT_KEY])
+            : value);
+    return Array.isArray(parsed) ? parsed as AileyTransaction[] : [];
+}
+
+/**
+ * Transaction storage in window.localStorage
+ *
+ * Does nothing where localStorage is unavailable (server rendering, private mode quota errors).
+ *
+ * @param key localStorage key (default: 'ailey:transactions')
+ */
+export function localStorageTransactionStorage(key = 'ailey:transactions'): TransactionStorage {
+    return {
+        load: () => {
+            try {
+                const json = globalThis.localStorage?.getItem(key);
+                return json ? deserializeTransactions(json) : [];
+            } catch (e) {
+                console.error("Failed to load transactions from localStorage:", e);
+                return [];
+            }
+        },
+        save: transactions => {
+            try {
+                globalThis.localStorage?.setItem(key, serializeTransactions(transactions));
+            } catch (e) {
+                console.error("Failed to save transactions to localStorage:", e);
+            }
+        }
+    };
+}
+
+// Resolve an IndexedDB request as a promise
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Transaction storage in IndexedDB, for histories too large for localStorage
+ *
+ * The history is stored as one record, IndexedDB keeps bigints natively.
+ * Does nothing where IndexedDB is unavailable.
+ *
+ * @param dbName Database name (default: 'ailey')
+ * @param storeName Object store name (default: 'transactions')
+ */
+export function indexedDBTransactionStorage(dbName = 'ailey', storeName = 'transactions'): TransactionStorage {
+    const HISTORY_KEY = 'history';
+    let db: Promise<IDBDatabase> | undefined;
+
+    const openDb = () => {
+        if (!db) {
+            const request = globalThis.indexedDB.open(dbName, 1);
+            request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+            // A failed open (blocked, version error, private mode) is retried by the next load or save
+            db = requestToPromise(request).catch(e => {
+                db = undefined;
+                throw e;
+            });
+        }
+        return db;
+    };
+
+    return {
+        load: async () => {
+            if (!globalThis.indexedDB) return [];
+            try {
+                const store = (await openDb()).transaction(storeName, 'readonly').objectStore(storeName);
+                const transactions = await requestToPromise(store.get(HISTORY_KEY));
+                return Array.isArray(transactions) ? transactions : [];
+            } catch (e) {
+                console.error("Failed to load transactions from IndexedDB:", e);
+                return [];
+            }
+        },
+        save: async transactions => {
+            if (!globalThis.indexedDB) return;
+            try {
+                const store = (await openDb()).transaction(storeName, 'readwrite').objectStore(storeName);
+                await requestToPromise(store.put(transactions, HISTORY_KEY));
+            } catch (e) {
+                console.error("Failed to save transactions to IndexedDB:", e);
+            }
+        }
+    };
+}
@@ -1,7 +1,4 @@
 import { defineConfig } from 'tsup';
-import * as dotenv from 'dotenv';
-
-dotenv.config();
 
 export default defineConfig({
     entry: ['src/index.ts'],
@@ -10,11 +7,4 @@ export default defineConfig({
     clean: true,
     splitting: false,
     sourcemap: true,
-
-    esbuildOptions(options) {
-        options.define = {
-            ...options.define,
-            'process.env.UNISWAP_V3_FACTORY_ADDRESS': JSON.stringify(process.env.UNISWAP_V3_FACTORY_ADDRESS)
-        };
-    },
 });
\ No newline at end of file
@@ -1,7 +1,6 @@
 import './App.css'
 import {QueryClient} from "@tanstack/react-query";
-import {agentApiAbi} from "./abi/agentApi.abi.ts";
-import {AileyProvider, useChainId, useSwitchChain} from "ailey-agent-sdk-react";
+import {AileyProvider, useAccount, useAileyChain} from "ailey-agent-sdk-react";
 import {FeatureCard} from "./components/FeatureCard.tsx";
 import {features, type Feature} from "./config/features.ts";
 import {config} from "./config/wagmi.ts";
@@ -13,16 +12,31 @@ import {Badge} from "@/components/ui/badge";
 
 const queryClient = new QueryClient();
 
+const chainId = Number(import.meta.env.VITE_APP_CHAIN_ID);
+
+const aileyConfig = {
+    deployments: {
+        [chainId]: {address: import.meta.env.VITE_APP_CONTRACT_AGENT_API_ADDR as `0x${string}`}
+    },
+    defaultChainId: chainId,
+    dex: {
+        [chainId]: {
+            factory: import.meta.env.VITE_APP_UNISWAP_V3_FACTORY_ADDR as `0x${string}`,
+            wrappedNative: import.meta.env.VITE_APP_CONTRACT_BNB_ADDR as `0x${string}`,
+            quoter: import.meta.env.VITE_APP_UNISWAP_V3_QUOTER_ADDR as `0x${string}` | undefined
+        }
+    }
+};
+
 function ChainSwitcher() {
-    const {switchChain} = useSwitchChain();
-    const currentChainId = useChainId();
-    const targetChainId = Number(import.meta.env.VITE_APP_CHAIN_ID);
+    const {isConnected} = useAccount();
+    const {isSupported, isSwitching, switchToSupportedChain} = useAileyChain();
 
     useEffect(() => {
-        if (currentChainId !== targetChainId && switchChain) {
-            switchChain({chainId: targetChainId});
+        if (isConnected && !isSupported && !isSwitching) {
+            switchToSupportedChain();
         }
-    }, [currentChainId, targetChainId, switchChain]);
+    }, [isConnected, isSupported, isSwitching, switchToSupportedChain]);
 
     return null;
 }
@@ -30,12 +44,6 @@ function ChainSwitcher() {
 function App() {
     const [selectedFeature, setSelectedFeature] = useState<Feature | null>(null);
 
-    const aileyConfig = {
-        address: import.meta.env.VITE_APP_CONTRACT_AGENT_API_ADDR as `0x${string}`,
-        abi: agentApiAbi,
-        chainId: Number(import.meta.env.VITE_APP_CHAIN_ID)
-    };
-
     return (
         <AileyProvider wagmiConfig={config} queryClient={queryClient} aileyConfig={aileyConfig}>
             <ChainSwitcher/>
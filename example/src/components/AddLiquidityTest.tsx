@@ -1,5 +1,5 @@
-import {useCallback, useEffect, useState} from 'react';
-import {useAccount, useAddLiquidity, useTokenBalance, useDisconnect} from 'ailey-agent-sdk-react';
+import {useEffect, useState} from 'react';
+import {useAccount, useAddLiquidity, useLiquidityQuote, useTokenBalances, useDisconnect} from 'ailey-agent-sdk-react';
 import {toast} from 'sonner';
 import {AlertCircle, Loader2, RefreshCw, ChevronDown, ChevronRight, Info} from 'lucide-react';
 
@@ -11,26 +11,17 @@ export function AddLiquidityTest({ onClose }: { onClose: () => void }) {
     const {disconnect} = useDisconnect();
 
     const {
-        balance: balanceA,
-        isLoading: isBalanceLoadingA,
-        error: balanceErrorA,
-        refetch: refetchBalanceA
-    } = useTokenBalance(import.meta.env.VITE_APP_CONTRACT_ALE_TOKEN_ADDR);
+        balances: [tokenBalanceA, tokenBalanceB],
+        isLoading: isBalanceLoading,
+        error: balanceError,
+        refetch: refetchBalances
+    } = useTokenBalances([
+        import.meta.env.VITE_APP_CONTRACT_ALE_TOKEN_ADDR,
+        import.meta.env.VITE_APP_CONTRACT_BNB_ADDR
+    ]);
 
-    const {
-        balance: balanceB,
-        isLoading: isBalanceLoadingB,
-        error: balanceErrorB,
-        refetch: refetchBalanceB
-    } = useTokenBalance(import.meta.env.VITE_APP_CONTRACT_BNB_ADDR);
-
-    const isBalanceLoading = isBalanceLoadingA || isBalanceLoadingB;
-    const balanceError = balanceErrorA || balanceErrorB;
-
-    const refetchBalances = useCallback(() => {
-        refetchBalanceA();
-        refetchBalanceB();
-    }, [refetchBalanceA, refetchBalanceB]);
+    const balanceA = tokenBalanceA?.balance;
+    const balanceB = tokenBalanceB?.balance;
 
     // Liquidity Add Hook
     const {
@@ -49,8 +40,26 @@ export function AddLiquidityTest({ onClose }: { onClose: () => void }) {
     // Input state management
     const [aleAmount, setAleAmount] = useState('30');
     const [wbnbAmount, setWbnbAmount] = useState('0.03');
+    const [independentToken, setIndependentToken] = useState<'A' | 'B'>('A');
     const [showDebug, setShowDebug] = useState(false);
 
+    // Quote the counterpart amount of the field the user last edited
+    const {formattedAmountA, formattedAmountB, shareOfPool} = useLiquidityQuote({
+        tokenAAddress: import.meta.env.VITE_APP_CONTRACT_ALE_TOKEN_ADDR as `0x${string}`,
+        tokenBAddress: import.meta.env.VITE_APP_CONTRACT_BNB_ADDR as `0x${string}`,
+        independentToken,
+        amount: independentToken === 'A' ? aleAmount : wbnbAmount
+    });
+
+    // Auto-fill the other field
+    useEffect(() => {
+        if (independentToken === 'A' && formattedAmountB !== undefined) {
+            setWbnbAmount(formattedAmountB);
+        } else if (independentToken === 'B' && formattedAmountA !== undefined) {
+            setAleAmount(formattedAmountA);
+        }
+    }, [independentToken, formattedAmountA, formattedAmountB]);
+
     // Check if balance is sufficient
     const hasInsufficientBalance = () => {
         if (!balanceA || !balanceB) return false;
@@ -93,8 +102,12 @@ export function AddLiquidityTest({ onClose }: { onClose: () => void }) {
                 return 'Checking token balances...';
             case 'checking-approvals':
                 return 'Checking token approval status...';
+            case 'signing-permit-token0':
+                return `Signing ${poolInfo?.token0?.symbol} permit...`;
             case 'approving-token0':
                 return `Approving ${poolInfo?.token0?.symbol} token...`;
+            case 'signing-permit-token1':
+                return `Signing ${poolInfo?.token1?.symbol} permit...`;
             case 'approving-token1':
                 return `Approving ${poolInfo?.token1?.symbol} token...`;
             case 'adding-liquidity':
@@ -102,7 +115,7 @@ export function AddLiquidityTest({ onClose }: { onClose: () => void }) {
             case 'complete':
                 return 'Liquidity added successfully';
             case 'error':
-                return error || 'An unknown error occurred';
+                return error?.message || 'An unknown error occurred';
             default:
                 return 'Ready to add liquidity';
         }
@@ -126,7 +139,7 @@ export function AddLiquidityTest({ onClose }: { onClose: () => void }) {
     useEffect(() => {
         if (isError) {
             toast.error('Liquidity Addition Failed', {
-                description: error || 'An error occurred while adding liquidity. Please try again.'
+                description: error?.message || 'An error occurred while adding liquidity. Please try again.'
             });
         }
     }, [isError, error]);
@@ -207,7 +220,10 @@ export function AddLiquidityTest({ onClose }: { onClose: () => void }) {
                                 step="0.001"
                                 min="0"
                                 value={aleAmount}
-                                onChange={(e) => setAleAmount(e.target.value)}
+                                onChange={(e) => {
+                                    setIndependentToken('A');
+                                    setAleAmount(e.target.value);
+                                }}
                                 className={`w-full px-4 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-gray-900 ${
                                     hasInsufficientBalance() && parseFloat(balanceA || '0') < parseFloat(aleAmount)
                                         ? 'border-red-300 bg-red-50' : 'border-gray-300'
@@ -236,7 +252,10 @@ export function AddLiquidityTest({ onClose }: { onClose: () => void }) {
                                 step="0.001"
                                 min="0"
                                 value={wbnbAmount}
-                                onChange={(e) => setWbnbAmount(e.target.value)}
+                                onChange={(e) => {
+                                    setIndependentToken('B');
+                                    setWbnbAmount(e.target.value);
+                                }}
                                 className={`w-full px-4 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-gray-900 ${
                                     hasInsufficientBalance() && parseFloat(balanceB || '0') < parseFloat(wbnbAmount)
                                         ? 'border-red-300 bg-red-50' : 'border-gray-300'
@@ -263,11 +282,19 @@ export function AddLiquidityTest({ onClose }: { onClose: () => void }) {
                 <div className="grid grid-cols-2 gap-4 text-sm">
                     <div className="flex justify-between">
                         <span className="text-gray-600">Fee Tier:</span>
-                        <span className="font-medium text-gray-900">0.01%</span>
+                        <span className="font-medium text-gray-900">{poolInfo?.fee ? `${poolInfo.fee / 10000}%` : 'Auto (deepest)'}</span>
                     </div>
                     <div className="flex justify-between">
                         <span className="text-gray-600">Price Range:</span>
-                        <span className="font-medium text-gray-900">Current ±100</span>
+                        <span className="font-medium text-gray-900">
+                            {poolInfo?.priceLower && poolInfo?.priceUpper
+                                ? `${poolInfo.priceLower.toSignificant(6)} - ${poolInfo.priceUpper.toSignificant(6)}`
+                                : 'Current ±100'}
+                        </span>
+                    </div>
+                    <div className="flex justify-between">
+                        <span className="text-gray-600">Share of Pool:</span>
+                        <span className="font-medium text-gray-900">{shareOfPool !== undefined ? `${shareOfPool.toFixed(4)}%` : '-'}</span>
                     </div>
                     <div className="flex justify-between">
                         <span className="text-gray-600">Slippage:</span>
@@ -1,4 +1,4 @@
-import { useAgentApiContract, useAccount } from 'ailey-agent-sdk-react';
+import { useAgentApiContract, useAgentInfo, useAccount } from 'ailey-agent-sdk-react';
 import { toast } from 'sonner';
 import { Loader2 } from 'lucide-react';
 import { useEffect } from 'react';
@@ -6,6 +6,7 @@ import { useEffect } from 'react';
 export function CallTest({ onClose: _onClose }: { onClose: () => void }) {
     const { callContract, isPending, isSuccess, isError } = useAgentApiContract();
     const { isConnected } = useAccount();
+    const { address: agentAddress, agentId, version } = useAgentInfo();
 
     useEffect(() => {
         if (isSuccess) {
@@ -54,6 +55,17 @@ export function CallTest({ onClose: _onClose }: { onClose: () => void }) {
                         <span className="font-medium text-gray-500">Parameters:</span>
                         <span className="ml-2 text-gray-700">None</span>
                     </div>
+                    <div>
+                        <span className="font-medium text-gray-500">Agent:</span>
+                        <span className="ml-2 text-gray-700 font-mono">
+                            {agentAddress ? `${agentAddress.slice(0, 6)}...${agentAddress.slice(-4)}` : '-'}
+                            {agentId !== undefined && ` (#${agentId.toString()})`}
+                        </span>
+                    </div>
+                    <div>
+                        <span className="font-medium text-gray-500">Version:</span>
+                        <span className="ml-2 text-gray-700">{version ?? '-'}</span>
+                    </div>
                 </div>
             </div>
 
@@ -1,5 +1,6 @@
 import {formatUnits} from 'viem';
-import {Loader2} from 'lucide-react';
+import {AlertTriangle, Loader2} from 'lucide-react';
+import type {PriceImpactSeverity} from 'ailey-agent-sdk-react';
 
 export interface SwapQuoteDisplayProps {
     /** Amount of input tokens in wei */
@@ -20,8 +21,19 @@ export interface SwapQuoteDisplayProps {
     slippageTolerance?: number;
     /** Whether the quote is currently loading */
     isLoading?: boolean;
+    /** Price impact in percent (e.g., 1.5 for 1.5%) */
+    priceImpact?: number;
+    /** Price impact severity reported by useSwapQuote */
+    priceImpactSeverity?: PriceImpactSeverity;
 }
 
+const PRICE_IMPACT_STYLES: Record<PriceImpactSeverity, string> = {
+    low: 'text-gray-900',
+    medium: 'text-yellow-700',
+    high: 'text-orange-600',
+    blocked: 'text-red-600'
+};
+
 /**
  * Reusable component for displaying swap quotes with detailed information
  * Shows expected output, minimum received, exchange rate, and slippage info
@@ -35,7 +47,9 @@ export function SwapQuoteDisplay({
     tokenInDecimals = 18,
     tokenOutDecimals = 18,
     slippageTolerance = 0.5,
-    isLoading = false
+    isLoading = false,
+    priceImpact,
+    priceImpactSeverity = 'low'
 }: SwapQuoteDisplayProps) {
     // Calculate exchange rate if we have both amounts
     const exchangeRate = amountIn && estimatedAmountOut && amountIn > 0n
@@ -104,6 +118,16 @@ export function SwapQuoteDisplay({
                     </div>
                 )}
 
+                {/* Price Impact */}
+                {priceImpact !== undefined && (
+                    <div className="flex justify-between items-center">
+                        <span className="text-sm text-gray-600">Price Impact:</span>
+                        <span className={`text-sm font-medium ${PRICE_IMPACT_STYLES[priceImpactSeverity]}`}>
+                            {priceImpact < 0.01 ? '<0.01' : priceImpact.toFixed(2)}%
+                        </span>
+                    </div>
+                )}
+
                 {/* Slippage Tolerance */}
                 <div className="flex justify-between items-center pt-2 border-t border-gray-300">
                     <span className="text-sm text-gray-600">Slippage Tolerance:</span>
@@ -111,6 +135,18 @@ export function SwapQuoteDisplay({
                         {slippageTolerance}%
                     </span>
                 </div>
+
+                {/* High Price Impact Warning */}
+                {(priceImpactSeverity === 'high' || priceImpactSeverity === 'blocked') && (
+                    <div className="flex items-start gap-2 pt-2">
+                        <AlertTriangle className={`w-4 h-4 mt-0.5 ${PRICE_IMPACT_STYLES[priceImpactSeverity]}`} />
+                        <p className={`text-xs ${PRICE_IMPACT_STYLES[priceImpactSeverity]}`}>
+                            {priceImpactSeverity === 'blocked'
+                                ? 'Price impact is too high. Reduce the amount before swapping.'
+                                : 'This trade has a high price impact. You may receive significantly less.'}
+                        </p>
+                    </div>
+                )}
             </div>
         </div>
     );
@@ -29,6 +29,8 @@ export function SwapQuoteTest({onClose: _onClose}: { onClose: () => void }) {
     const {
         estimatedAmountOut,
         amountOutMinimum,
+        priceImpact,
+        priceImpactSeverity,
         isLoading: isQuoteLoading
     } = useSwapQuote(amountInWei && tokenInAddress && tokenOutAddress ? {
         tokenInAddress: tokenInAddress as `0x${string}`,
@@ -130,6 +132,8 @@ export function SwapQuoteTest({onClose: _onClose}: { onClose: () => void }) {
                 tokenOutSymbol={tokenOutSymbol}
                 slippageTolerance={0.5}
                 isLoading={isQuoteLoading}
+                priceImpact={priceImpact}
+                priceImpactSeverity={priceImpactSeverity}
             />
 
             {/* Configuration Info */}
@@ -138,7 +142,7 @@ export function SwapQuoteTest({onClose: _onClose}: { onClose: () => void }) {
                 <div className="grid grid-cols-1 gap-3 text-sm">
                     <div className="flex justify-between py-2 border-b border-gray-100">
                         <span className="font-medium text-gray-500">Fee Tier:</span>
-                        <span className="text-gray-700">0.01% (100 basis points)</span>
+                        <span className="text-gray-700">Best price (Auto)</span>
                     </div>
                     <div className="flex justify-between py-2 border-b border-gray-100">
                         <span className="font-medium text-gray-500">Slippage Tolerance:</span>
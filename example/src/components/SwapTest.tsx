@@ -1,4 +1,4 @@
-import {type SwapParams, useAccount, useCallSwap, useSwapQuote, useTokenBalance} from 'ailey-agent-sdk-react';
+import {NATIVE_CURRENCY, type SwapParams, useAccount, useCallSwap, useSwapQuote, useTokenBalance} from 'ailey-agent-sdk-react';
 import {useMemo, useState, useEffect} from 'react';
 import {parseUnits} from 'viem';
 import {toast} from 'sonner';
@@ -7,7 +7,7 @@ import {SwapQuoteDisplay} from './SwapQuoteDisplay';
 
 /**
  * Demo component for testing token swaps through Ailey Agent
- * Swaps WBNB -> ALE tokens with fixed parameters
+ * Swaps BNB -> ALE tokens with fixed parameters
  */
 export function SwapTest({ onClose: _onClose }: { onClose: () => void }) {
     const {callSwap, isPending, isSuccess, isError} = useCallSwap();
@@ -31,12 +31,12 @@ export function SwapTest({ onClose: _onClose }: { onClose: () => void }) {
         }
     }, [isError]);
 
-    // Get WBNB token balance
+    // Get native BNB balance
     const {
-        balance: wbnbBalance,
-        balanceWei: wbnbBalanceWei,
+        balance: bnbBalance,
+        balanceWei: bnbBalanceWei,
         isLoading: isBalanceLoading
-    } = useTokenBalance(import.meta.env.VITE_APP_CONTRACT_BNB_ADDR);
+    } = useTokenBalance(NATIVE_CURRENCY);
 
     // Calculate amountInWei for quote and validation
     const amountInWei = useMemo(() => {
@@ -52,18 +52,20 @@ export function SwapTest({ onClose: _onClose }: { onClose: () => void }) {
     const {
         estimatedAmountOut,
         amountOutMinimum,
+        priceImpact,
+        priceImpactSeverity,
         isLoading: isQuoteLoading
     } = useSwapQuote(amountInWei ? {
-        tokenInAddress: import.meta.env.VITE_APP_CONTRACT_BNB_ADDR,
+        tokenInAddress: NATIVE_CURRENCY,
         tokenOutAddress: import.meta.env.VITE_APP_CONTRACT_ALE_TOKEN_ADDR,
         amountIn: amountInWei,
     } : undefined);
 
     // Check if balance is sufficient
     const hasInsufficientBalance = useMemo(() => {
-        if (!amountInWei || !wbnbBalanceWei) return false;
-        return amountInWei > wbnbBalanceWei;
-    }, [amountInWei, wbnbBalanceWei]);
+        if (!amountInWei || !bnbBalanceWei) return false;
+        return amountInWei > bnbBalanceWei;
+    }, [amountInWei, bnbBalanceWei]);
 
     const handleSwap = () => {
         if (!isConnected) {
@@ -81,7 +83,7 @@ export function SwapTest({ onClose: _onClose }: { onClose: () => void }) {
             const recipient = recipientAddress || address;
 
             const swapParams: SwapParams = {
-                tokenInAddress: import.meta.env.VITE_APP_CONTRACT_BNB_ADDR,
+                tokenInAddress: NATIVE_CURRENCY,
                 tokenOutAddress: import.meta.env.VITE_APP_CONTRACT_ALE_TOKEN_ADDR,
                 amountIn: amountInWei,
                 recipient: recipient as `0x${string}`
@@ -100,7 +102,7 @@ export function SwapTest({ onClose: _onClose }: { onClose: () => void }) {
             <div className="bg-gray-50 rounded-lg p-6 border border-gray-200">
                 <p className="text-sm text-gray-700 leading-relaxed">
                     Test token swapping functionality through the Ailey Agent API.
-                    This will swap WBNB tokens for ALE tokens using a fixed 0.01% fee tier.
+                    This will wrap native BNB and swap it for ALE tokens using the best-priced fee tier.
                 </p>
             </div>
 
@@ -110,7 +112,7 @@ export function SwapTest({ onClose: _onClose }: { onClose: () => void }) {
                 <div className="grid grid-cols-1 gap-3 text-sm">
                     <div className="flex justify-between py-2 border-b border-gray-100">
                         <span className="font-medium text-gray-500">From Token:</span>
-                        <span className="font-mono text-xs bg-gray-50 px-2 py-1 rounded border border-gray-200">WBNB</span>
+                        <span className="font-mono text-xs bg-gray-50 px-2 py-1 rounded border border-gray-200">BNB</span>
                     </div>
                     <div className="flex justify-between py-2 border-b border-gray-100">
                         <span className="font-medium text-gray-500">To Token:</span>
@@ -118,7 +120,7 @@ export function SwapTest({ onClose: _onClose }: { onClose: () => void }) {
                     </div>
                     <div className="flex justify-between py-2 border-b border-gray-100">
                         <span className="font-medium text-gray-500">Fee Tier:</span>
-                        <span className="text-gray-700">0.01% (Auto)</span>
+                        <span className="text-gray-700">Best price (Auto)</span>
                     </div>
                     <div className="flex justify-between py-2 border-b border-gray-100">
                         <span className="font-medium text-gray-500">Deadline:</span>
@@ -136,7 +138,7 @@ export function SwapTest({ onClose: _onClose }: { onClose: () => void }) {
                 <div className="space-y-4">
                     <div>
                         <label className="block text-sm font-semibold text-gray-700 mb-2">
-                            Amount to Swap (WBNB)
+                            Amount to Swap (BNB)
                         </label>
                         <div className="relative">
                             <input
@@ -149,18 +151,18 @@ export function SwapTest({ onClose: _onClose }: { onClose: () => void }) {
                                 placeholder="0.001"
                             />
                             <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
-                                <span className="text-gray-500 text-sm font-medium">WBNB</span>
+                                <span className="text-gray-500 text-sm font-medium">BNB</span>
                             </div>
                         </div>
                         <div className="mt-2 flex justify-between items-center">
                             <p className="text-xs text-gray-500">
-                                Minimum: 0.001 WBNB
+                                Minimum: 0.001 BNB
                             </p>
                             <p className="text-xs text-gray-600">
                                 {isBalanceLoading ? (
                                     <span>Loading balance...</span>
                                 ) : (
-                                    <span>Balance: <span className="font-semibold">{parseFloat(wbnbBalance).toFixed(6)} WBNB</span></span>
+                                    <span>Balance: <span className="font-semibold">{parseFloat(bnbBalance).toFixed(6)} BNB</span></span>
                                 )}
                             </p>
                         </div>
@@ -171,10 +173,12 @@ export function SwapTest({ onClose: _onClose }: { onClose: () => void }) {
                         amountIn={amountInWei}
                         estimatedAmountOut={estimatedAmountOut}
                         amountOutMinimum={amountOutMinimum}
-                        tokenInSymbol="WBNB"
+                        tokenInSymbol="BNB"
                         tokenOutSymbol="ALE"
                         slippageTolerance={0.5}
                         isLoading={isQuoteLoading}
+                        priceImpact={priceImpact}
+                        priceImpactSeverity={priceImpactSeverity}
                     />
 
                     {/* Insufficient Balance Warning */}
@@ -185,7 +189,7 @@ export function SwapTest({ onClose: _onClose }: { onClose: () => void }) {
                                 <div>
                                     <h5 className="text-sm font-medium text-red-900">Insufficient Balance</h5>
                                     <p className="text-sm text-red-700 mt-1">
-                                        You don't have enough WBNB. Your balance is {parseFloat(wbnbBalance).toFixed(6)} WBNB.
+                                        You don't have enough BNB. Your balance is {parseFloat(bnbBalance).toFixed(6)} BNB.
                                     </p>
                                 </div>
                             </div>